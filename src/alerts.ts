@@ -0,0 +1,342 @@
+import { EventEmitter } from "node:events";
+import { existsSync } from "node:fs";
+import { getEndpointInfo, buildOscPath } from "./endpoints.js";
+import { getUnitCurve, rawToValue, formatRaw } from "./units.js";
+import { midasClient, type MidasOscClient } from "./osc-client.js";
+import type { StateEntry } from "./state-cache.js";
+import { storePath, readJsonFile, writeJsonFile } from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * "above"/"below" compare against threshold in the endpoint's units (dB for
+ * meters and faders, positive dB of reduction for GR meters, raw 0-1
+ * otherwise); "active" fires on any non-zero
+ * value, e.g. clip states.
+ */
+export type AlertCondition = "above" | "below" | "active";
+
+export interface AlertRule {
+  name: string;
+  group: string;
+  endpoint: string;
+  /** Channels to watch; omitted means every instance (or the single path) */
+  indices?: number[];
+  condition: AlertCondition;
+  threshold?: number;
+  /** How long the condition must hold before the alert fires (default: 0) */
+  forMs?: number;
+}
+
+export interface AlertEvent {
+  id: number;
+  rule: string;
+  kind: "triggered" | "cleared";
+  address: string;
+  group: string;
+  endpoint: string;
+  index?: number;
+  value: number;
+  human?: string;
+  at: string;
+}
+
+interface Watch {
+  rule: AlertRule;
+  address: string;
+  index?: number;
+  /** When the condition started holding, or null */
+  since: number | null;
+  active: boolean;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const MAX_EVENTS = 500;
+const RULES_STORE = "alerts";
+const RULES_NAME = "rules";
+
+/**
+ * Reject a threshold the endpoint can never cross, e.g. a dBFS level on a
+ * meter that reads dB of gain reduction.
+ */
+function checkThreshold(rule: AlertRule): void {
+  const curve = getUnitCurve(rule.group, rule.endpoint);
+  const values = curve ? curve.points.map((p) => p.value) : [0, 1];
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const threshold = rule.threshold!;
+  if (rule.condition === "above" ? threshold >= high : threshold <= low) {
+    const unit = curve ? ` ${curve.unit}` : "";
+    throw new Error(
+      `${rule.group}/${rule.endpoint} reads ${low} to ${high}${unit}, so "${rule.condition} ${threshold}" can never fire.`
+    );
+  }
+}
+
+/**
+ * Check a rule against the endpoint database and fill in its instances.
+ * Returns the addresses to watch.
+ */
+function resolveRule(rule: AlertRule): { address: string; index?: number }[] {
+  const spec = getEndpointInfo(rule.group, rule.endpoint);
+  if (!spec) {
+    throw new Error(`Endpoint "${rule.endpoint}" not found in group "${rule.group}".`);
+  }
+  if (rule.condition !== "active" && rule.threshold === undefined) {
+    throw new Error(`Condition "${rule.condition}" needs a threshold.`);
+  }
+  if (rule.condition !== "active") {
+    checkThreshold(rule);
+  }
+
+  if (!spec.multiPath) {
+    return [{ address: buildOscPath(rule.group, rule.endpoint)! }];
+  }
+
+  let indices = rule.indices;
+  if (!indices) {
+    const count = spec.metadata?.indexCount;
+    if (count === undefined) {
+      throw new Error(
+        `Instance count of ${rule.group} is unknown; give the channel indices to watch.`
+      );
+    }
+    indices = Array.from({ length: count }, (_, i) => i);
+  }
+  return indices.map((index) => {
+    const address = buildOscPath(rule.group, rule.endpoint, index);
+    if (!address) {
+      throw new Error(`Index ${index} is out of range for ${rule.group}/${rule.endpoint}.`);
+    }
+    return { address, index };
+  });
+}
+
+function conditionMet(rule: AlertRule, raw: number): boolean {
+  if (rule.condition === "active") return raw !== 0;
+
+  const curve = getUnitCurve(rule.group, rule.endpoint);
+  const value = curve ? rawToValue(curve, raw) : raw;
+  return rule.condition === "above"
+    ? value > rule.threshold!
+    : value < rule.threshold!;
+}
+
+/**
+ * Describe a rule in one line, e.g. "enVirtualMicInputs/enMeter/11 below -50 for 30000 ms".
+ */
+export function describeRule(rule: AlertRule): string {
+  const target = `${rule.group}/${rule.endpoint}${rule.indices ? `/${rule.indices.join(",")}` : ""}`;
+  const test =
+    rule.condition === "active" ? "active" : `${rule.condition} ${rule.threshold}`;
+  return `${target} ${test}${rule.forMs ? ` for ${rule.forMs} ms` : ""}`;
+}
+
+// ── Alert Engine ─────────────────────────────────────────────────────────────
+
+/**
+ * Evaluates alert rules against incoming OSC data. Watched parameters are
+ * polled so meters keep reporting; every value that arrives, polled or
+ * pushed, is checked. Emits "alert" with an AlertEvent when a rule
+ * triggers or clears.
+ */
+export class AlertEngine extends EventEmitter {
+  private rules: Map<string, AlertRule> = new Map();
+  private watches: Map<string, Watch[]> = new Map();
+  private events: AlertEvent[] = [];
+  private nextEventId = 1;
+  private unsubscribe: (() => void) | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private loaded = false;
+
+  constructor(
+    private client: MidasOscClient,
+    private pollIntervalMs = DEFAULT_POLL_INTERVAL_MS
+  ) {
+    super();
+  }
+
+  /**
+   * Start evaluating. Saved rules are loaded on first start.
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    if (!this.loaded) this.load();
+
+    this.unsubscribe = this.client.subscribe("**", (entry) => this.evaluate(entry));
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Add or replace a rule and save the rule set.
+   */
+  addRule(rule: AlertRule): void {
+    const targets = resolveRule(rule);
+    this.removeWatches(rule.name);
+    this.rules.set(rule.name, rule);
+    for (const { address, index } of targets) {
+      const list = this.watches.get(address) ?? [];
+      list.push({ rule, address, index, since: null, active: false });
+      this.watches.set(address, list);
+    }
+    this.save();
+  }
+
+  /**
+   * Remove a rule. Returns false if there was no such rule.
+   */
+  removeRule(name: string): boolean {
+    if (!this.rules.delete(name)) return false;
+    this.removeWatches(name);
+    this.save();
+    return true;
+  }
+
+  listRules(): AlertRule[] {
+    return [...this.rules.values()];
+  }
+
+  /**
+   * Currently firing alerts, one per rule and channel.
+   */
+  activeAlerts(): { rule: string; address: string; since: number }[] {
+    const active: { rule: string; address: string; since: number }[] = [];
+    for (const list of this.watches.values()) {
+      for (const w of list) {
+        if (w.active) active.push({ rule: w.rule.name, address: w.address, since: w.since! });
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Recent events, newest last, optionally only those after an event id.
+   */
+  recentEvents(limit = 20, afterId = 0): AlertEvent[] {
+    return this.events.filter((e) => e.id > afterId).slice(-limit);
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────
+
+  private removeWatches(name: string): void {
+    for (const [address, list] of this.watches) {
+      const kept = list.filter((w) => w.rule.name !== name);
+      if (kept.length > 0) this.watches.set(address, kept);
+      else this.watches.delete(address);
+    }
+  }
+
+  private evaluate(entry: StateEntry): void {
+    const list = this.watches.get(entry.address);
+    const raw = entry.args[0];
+    if (!list || typeof raw !== "number") return;
+
+    const now = entry.timestamp;
+    for (const w of list) {
+      if (conditionMet(w.rule, raw)) {
+        w.since ??= now;
+        if (!w.active && now - w.since >= (w.rule.forMs ?? 0)) {
+          w.active = true;
+          this.record(w, "triggered", raw);
+        }
+      } else {
+        w.since = null;
+        if (w.active) {
+          w.active = false;
+          this.record(w, "cleared", raw);
+        }
+      }
+    }
+  }
+
+  private record(w: Watch, kind: AlertEvent["kind"], value: number): void {
+    const event: AlertEvent = {
+      id: this.nextEventId++,
+      rule: w.rule.name,
+      kind,
+      address: w.address,
+      group: w.rule.group,
+      endpoint: w.rule.endpoint,
+      index: w.index,
+      value,
+      human: formatRaw(w.rule.group, w.rule.endpoint, value) ?? undefined,
+      at: new Date().toISOString(),
+    };
+    this.events.push(event);
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+
+    console.error(
+      `[midas-pro] Alert ${kind}: ${event.rule} at ${event.address}${event.human ? ` (${event.human})` : ""}`
+    );
+    this.emit("alert", event);
+  }
+
+  private poll(): void {
+    if (!this.client.isConnected) return;
+    for (const list of this.watches.values()) {
+      const { rule, index } = list[0];
+      this.client
+        .getValue(rule.group, rule.endpoint, index, {
+          timeoutMs: this.pollIntervalMs,
+          retries: 0,
+        })
+        .catch(() => {});
+    }
+  }
+
+  /**
+   * Load the saved rules. An unreadable rules file is reported and the
+   * engine starts with no rules, so a bad edit can't stop the server.
+   */
+  private load(): void {
+    this.loaded = true;
+    const path = storePath(RULES_STORE, RULES_NAME);
+    if (!existsSync(path)) return;
+
+    let rules: AlertRule[];
+    try {
+      rules = readJsonFile<AlertRule[]>(path);
+      if (!Array.isArray(rules)) {
+        throw new Error("expected a list of rules");
+      }
+    } catch (err) {
+      console.error(
+        `[midas-pro] Alerts: could not read ${path}: ${err instanceof Error ? err.message : String(err)}; starting with no rules`
+      );
+      return;
+    }
+
+    for (const rule of rules) {
+      try {
+        this.addRule(rule);
+      } catch (err) {
+        console.error(
+          `[midas-pro] Skipping alert rule "${rule.name}": ${err instanceof Error ? err.message : err}`
+        );
+      }
+    }
+  }
+
+  private save(): void {
+    writeJsonFile(storePath(RULES_STORE, RULES_NAME), this.listRules());
+  }
+}
+
+// Singleton engine watching the shared client
+export const alertEngine = new AlertEngine(midasClient);
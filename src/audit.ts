@@ -0,0 +1,366 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { getEndpointInfo } from "./endpoints.js";
+import { formatRaw } from "./units.js";
+import { midasClient, type MidasOscClient, type PendingWrite } from "./osc-client.js";
+import { restoreSkipReason } from "./snapshot.js";
+import { appendJsonLine, getStoreDir, readJsonLines } from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * One write sent to the console, as journaled in
+ * ~/.midas-pro/audit/writes.jsonl.
+ */
+export interface AuditEntry {
+  id: number;
+  /** ISO timestamp */
+  at: string;
+  /** Tool the write was made by, if any */
+  tool?: string;
+  /** Groups the writes made by one tool call */
+  call?: string;
+  path: string;
+  group: string;
+  endpoint: string;
+  index?: number;
+  /** Value before the write, null if unknown */
+  previous: number | string | null;
+  value: number | string;
+  /** Toggle switch: the write flips it, so it cannot be replayed */
+  toggle?: true;
+  /** Ids of the entries this write reverted */
+  undoOf?: number[];
+}
+
+export interface AuditFilter {
+  /** Only entries at or after this time */
+  since?: Date;
+  /** Only entries made by this tool */
+  tool?: string;
+  /** Only the newest this many */
+  limit?: number;
+}
+
+/** What undo did for one OSC address */
+export interface UndoStep {
+  path: string;
+  group: string;
+  endpoint: string;
+  index?: number;
+  /** Value written back, the one before the oldest undone write */
+  value: number | string | null;
+  /** Entry ids this step covers */
+  entries: number[];
+  status: "ok" | "skipped" | "failed";
+  reason?: string;
+}
+
+interface AuditContext {
+  tool?: string;
+  call?: string;
+  undoOf?: number[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const AUDIT_STORE = "audit";
+const AUDIT_FILE = "writes.jsonl";
+
+/** How long to wait for the console when the value being replaced is not cached */
+const CAPTURE_TIMEOUT_MS = 300;
+
+/** Floats read back from the console may differ from what was sent by rounding */
+const FLOAT_TOLERANCE = 1e-4;
+
+export function auditLogPath(): string {
+  return join(getStoreDir(AUDIT_STORE), AUDIT_FILE);
+}
+
+function isToggle(write: PendingWrite): boolean {
+  return write.spec.type === "enPPCSwitchMessage" && !write.spec.isAbsolute;
+}
+
+/** Whether undo could ever set this entry back */
+function canRestore(entry: AuditEntry): boolean {
+  if (entry.toggle || entry.previous === null) return false;
+  const spec = getEndpointInfo(entry.group, entry.endpoint);
+  return spec !== null && restoreSkipReason(spec, entry.endpoint) === null;
+}
+
+function callKey(entry: AuditEntry): string {
+  return entry.call ?? `#${entry.id}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) <= FLOAT_TOLERANCE;
+  }
+  return a === b;
+}
+
+/**
+ * Parse a point in time: an ISO date/time, or a duration back from now
+ * such as "30s", "15m", "2h" or "1d".
+ */
+export function parseSince(since: string, now = Date.now()): Date {
+  const relative = /^(\d+(?:\.\d+)?)\s*(s|m|h|d)$/i.exec(since.trim());
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[
+      relative[2].toLowerCase() as "s" | "m" | "h" | "d"
+    ];
+    return new Date(now - Number(relative[1]) * unitMs);
+  }
+  const date = new Date(since);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${since}". Use an ISO time or a duration like "15m".`);
+  }
+  return date;
+}
+
+// ── Audit Log ────────────────────────────────────────────────────────────────
+
+/**
+ * Journals every write the client sends, with the value it replaced, to an
+ * append-only JSON Lines file, and replays those values to undo writes.
+ */
+export class AuditLog {
+  private nextId: number | null = null;
+  private calls = 0;
+  private context = new AsyncLocalStorage<AuditContext>();
+
+  constructor(private client: MidasOscClient) {
+    client.setWriteJournal({
+      capture: (write) => this.capture(write),
+      record: (write, previous) => this.record(write, previous),
+    });
+  }
+
+  /**
+   * Run `fn` with its writes attributed to a tool. Each run counts as one
+   * call, which undo_last treats as a unit.
+   */
+  runAs<T>(tool: string, fn: () => Promise<T>): Promise<T> {
+    this.calls += 1;
+    return this.context.run({ tool, call: `${Date.now().toString(36)}-${this.calls}` }, fn);
+  }
+
+  /**
+   * Journal entries, oldest first.
+   */
+  entries(filter: AuditFilter = {}): AuditEntry[] {
+    const path = auditLogPath();
+    if (!existsSync(path)) return [];
+    let entries = readJsonLines<AuditEntry>(path);
+    if (filter.since) {
+      const since = filter.since.getTime();
+      entries = entries.filter((e) => Date.parse(e.at) >= since);
+    }
+    if (filter.tool) entries = entries.filter((e) => e.tool === filter.tool);
+    if (filter.limit !== undefined) entries = entries.slice(-filter.limit);
+    return entries;
+  }
+
+  /** Ids of entries a later undo has reverted */
+  undoneIds(entries = this.entries()): Set<number> {
+    return new Set(entries.flatMap((e) => e.undoOf ?? []));
+  }
+
+  /**
+   * Entries from the last `count` tool calls that have not been undone yet.
+   * Undo writes themselves are not candidates, nor are calls with nothing
+   * left that could be set back (only toggles, say), so they cannot keep
+   * older calls out of reach.
+   */
+  lastCalls(count: number): AuditEntry[] {
+    const all = this.entries();
+    const undone = this.undoneIds(all);
+    const open = all.filter((e) => !e.undoOf && !undone.has(e.id));
+    const restorable = new Set(open.filter(canRestore).map(callKey));
+    const picked: AuditEntry[] = [];
+    const calls = new Set<string>();
+    for (let i = open.length - 1; i >= 0; i--) {
+      const key = callKey(open[i]);
+      if (!restorable.has(key)) continue;
+      if (!calls.has(key)) {
+        if (calls.size === count) break;
+        calls.add(key);
+      }
+      picked.unshift(open[i]);
+    }
+    return picked;
+  }
+
+  /**
+   * Entries since a time that have not been undone yet, undo writes aside.
+   */
+  openSince(since: Date): AuditEntry[] {
+    const all = this.entries();
+    const undone = this.undoneIds(all);
+    const start = since.getTime();
+    return all.filter((e) => !e.undoOf && !undone.has(e.id) && Date.parse(e.at) >= start);
+  }
+
+  /**
+   * Put back the values these entries replaced. Each address is written
+   * once, with the value from before the oldest entry. Addresses are
+   * skipped when a toggle was pressed, the old value is unknown, or the
+   * console no longer holds the value last written (someone changed it
+   * since), unless `force` is set.
+   */
+  async undo(entries: AuditEntry[], options: { force?: boolean } = {}): Promise<UndoStep[]> {
+    const byPath = new Map<string, AuditEntry[]>();
+    for (const entry of [...entries].sort((a, b) => b.id - a.id)) {
+      const list = byPath.get(entry.path) ?? [];
+      list.push(entry);
+      byPath.set(entry.path, list);
+    }
+
+    const steps: UndoStep[] = [];
+    for (const [path, list] of byPath) {
+      const newest = list[0];
+      const oldest = list[list.length - 1];
+      const step: UndoStep = {
+        path,
+        group: newest.group,
+        endpoint: newest.endpoint,
+        index: newest.index,
+        value: oldest.previous,
+        entries: list.map((e) => e.id),
+        status: "skipped",
+      };
+      steps.push(step);
+
+      const spec = getEndpointInfo(newest.group, newest.endpoint);
+      const skip = spec ? restoreSkipReason(spec, newest.endpoint) : "unknown endpoint";
+      if (skip || list.some((e) => e.toggle)) {
+        step.reason = `${skip ?? "toggle-only switch"}, cannot be set back`;
+        continue;
+      }
+      if (oldest.previous === null) {
+        step.reason = "value before the write is unknown";
+        continue;
+      }
+
+      try {
+        if (!options.force) {
+          const current = await this.client.getValue(newest.group, newest.endpoint, newest.index);
+          if (!current) {
+            step.reason = "console did not report the current value";
+            continue;
+          }
+          if (!sameValue(current.args[0], newest.value)) {
+            step.reason = `changed on the console since (now ${JSON.stringify(current.args[0])})`;
+            continue;
+          }
+        }
+        const context = { ...this.context.getStore(), undoOf: step.entries };
+        await this.context.run(context, () =>
+          this.client.setValue(newest.group, newest.endpoint, oldest.previous!, newest.index)
+        );
+        step.status = "ok";
+      } catch (err) {
+        step.status = "failed";
+        step.reason = err instanceof Error ? err.message : String(err);
+      }
+    }
+    return steps;
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────
+
+  /**
+   * The value a write replaces: from the cache, else a quick query. Toggles
+   * are never queried since their value is not what gets restored.
+   */
+  private async capture(write: PendingWrite): Promise<unknown> {
+    if (isToggle(write)) return null;
+    const cached = this.client.getCached(write.group, write.endpoint, write.index);
+    if (cached) return cached.args[0];
+    try {
+      const current = await this.client.getValue(write.group, write.endpoint, write.index, {
+        timeoutMs: CAPTURE_TIMEOUT_MS,
+        retries: 0,
+      });
+      return current?.args[0] ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private record(write: PendingWrite, previous: unknown): void {
+    const context = this.context.getStore();
+    const entry: AuditEntry = {
+      id: this.takeId(),
+      at: new Date().toISOString(),
+      tool: context?.tool,
+      call: context?.call,
+      path: write.path,
+      group: write.group,
+      endpoint: write.endpoint,
+      index: write.index,
+      previous: typeof previous === "number" || typeof previous === "string" ? previous : null,
+      value: write.value,
+      toggle: isToggle(write) ? true : undefined,
+      undoOf: context?.undoOf,
+    };
+    // The write has already gone out; a journal failure must not fail it
+    try {
+      appendJsonLine(auditLogPath(), entry);
+    } catch (err) {
+      console.error(`[midas-pro] Could not write audit log: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  private takeId(): number {
+    if (this.nextId === null) {
+      const last = this.entries().at(-1);
+      this.nextId = (last?.id ?? 0) + 1;
+    }
+    return this.nextId++;
+  }
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+function formatValue(group: string, endpoint: string, value: number | string | null): string {
+  if (value === null) return "?";
+  return formatRaw(group, endpoint, value) ?? JSON.stringify(value);
+}
+
+/**
+ * Render journal entries one per line, oldest first.
+ */
+export function formatAuditEntries(entries: AuditEntry[], undone: Set<number>): string {
+  return entries
+    .map((e) => {
+      const change = e.toggle
+        ? "toggled"
+        : `${formatValue(e.group, e.endpoint, e.previous)} → ${formatValue(e.group, e.endpoint, e.value)}`;
+      const notes = [
+        e.undoOf ? `undo of #${e.undoOf.join(", #")}` : "",
+        undone.has(e.id) ? "undone" : "",
+      ].filter(Boolean);
+      return `#${e.id} ${e.at} ${e.tool ?? "-"} ${e.path}: ${change}${notes.length ? ` (${notes.join("; ")})` : ""}`;
+    })
+    .join("\n");
+}
+
+export function formatUndoSteps(steps: UndoStep[]): string {
+  if (steps.length === 0) return "Nothing to undo.";
+  const done = steps.filter((s) => s.status === "ok").length;
+  const lines = [`Undo: ${done} of ${steps.length} address${steps.length === 1 ? "" : "es"} set back`];
+  for (const s of steps) {
+    const ids = `#${s.entries.join(", #")}`;
+    if (s.status === "ok") {
+      lines.push(`  ${s.path} = ${formatValue(s.group, s.endpoint, s.value)} (${ids})`);
+    } else {
+      lines.push(`  ${s.status.toUpperCase()} ${s.path} (${ids}): ${s.reason}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Singleton log journaling the shared client
+export const auditLog = new AuditLog(midasClient);
@@ -0,0 +1,199 @@
+import { getEndpointInfo } from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { formatRaw, resolveValue } from "./units.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface BatchItem {
+  group: string;
+  endpoint: string;
+  index?: number;
+}
+
+export interface BatchSetItem extends BatchItem {
+  value: number | string;
+}
+
+export interface BatchResult extends BatchItem {
+  status: "ok" | "timeout" | "error";
+  /** Raw value read or sent */
+  value?: unknown;
+  /** Value in engineering units, where known */
+  human?: string;
+  error?: string;
+}
+
+export interface BatchOptions {
+  /** Delay between consecutive messages, so the console isn't flooded (default: 10) */
+  paceMs?: number;
+  /** Per-query timeout for gets */
+  timeoutMs?: number;
+  /** Answer gets from the state cache when the cached value is at most this old */
+  maxAgeMs?: number;
+  /** Called after each item completes */
+  onProgress?: (done: number, total: number) => void;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+export const DEFAULT_PACE_MS = 10;
+
+/** Most indices one list may name; well above any group's instance count */
+const MAX_INDICES = 1024;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Parse an index list such as "0-23", "0,2,4" or "0-7, 16-23" into a sorted,
+ * de-duplicated array of indices. Lists naming more than MAX_INDICES are
+ * rejected before anything is expanded.
+ */
+export function parseIndexList(spec: string): number[] {
+  const indices = new Set<number>();
+  for (const part of spec.split(",")) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+
+    const range = /^(\d+)\s*[-–]\s*(\d+)$/.exec(trimmed);
+    if (range) {
+      const start = parseInt(range[1], 10);
+      const end = parseInt(range[2], 10);
+      if (end < start) {
+        throw new Error(`Invalid index range "${trimmed}" (end before start)`);
+      }
+      if (end - start + 1 + indices.size > MAX_INDICES) {
+        throw new Error(`Index list names more than ${MAX_INDICES} indices ("${trimmed}").`);
+      }
+      for (let i = start; i <= end; i++) indices.add(i);
+    } else if (/^\d+$/.test(trimmed)) {
+      indices.add(parseInt(trimmed, 10));
+      if (indices.size > MAX_INDICES) {
+        throw new Error(`Index list names more than ${MAX_INDICES} indices ("${trimmed}").`);
+      }
+    } else {
+      throw new Error(`Invalid index "${trimmed}". Use numbers and ranges like "0-23, 30".`);
+    }
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Expand endpoints × indices into batch items. Unindexed endpoints appear
+ * once regardless of the index list.
+ */
+export function expandItems(
+  group: string,
+  endpoints: string[],
+  indices: number[]
+): BatchItem[] {
+  const items: BatchItem[] = [];
+  for (const endpoint of endpoints) {
+    const spec = getEndpointInfo(group, endpoint);
+    if (spec && !spec.multiPath) {
+      items.push({ group, endpoint });
+      continue;
+    }
+    for (const index of indices) {
+      items.push({ group, endpoint, index });
+    }
+  }
+  return items;
+}
+
+// ── Batch Operations ─────────────────────────────────────────────────────────
+
+/**
+ * Read many parameters. Queries are sent at the configured pace and awaited
+ * together, so slow replies don't hold up later sends.
+ */
+export async function batchGet(
+  client: MidasOscClient,
+  items: BatchItem[],
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  const { paceMs = DEFAULT_PACE_MS, timeoutMs, maxAgeMs, onProgress } = options;
+  let done = 0;
+
+  const pending: Promise<BatchResult>[] = [];
+  for (const [i, item] of items.entries()) {
+    if (i > 0 && paceMs > 0) await sleep(paceMs);
+
+    pending.push(
+      client
+        .getValue(item.group, item.endpoint, item.index, { timeoutMs, maxAgeMs })
+        .then((response): BatchResult => {
+          if (!response) return { ...item, status: "timeout" };
+          const value = response.args[0];
+          const human = formatRaw(item.group, item.endpoint, value) ?? undefined;
+          return { ...item, status: "ok", value, human };
+        })
+        .catch((err): BatchResult => ({
+          ...item,
+          status: "error",
+          error: errorMessage(err),
+        }))
+        .finally(() => onProgress?.(++done, items.length))
+    );
+  }
+
+  return Promise.all(pending);
+}
+
+/**
+ * Write many parameters, one message at a time at the configured pace.
+ * Values may carry units ("-6 dB"); writes the safety policy stops are
+ * reported as errors.
+ */
+export async function batchSet(
+  client: MidasOscClient,
+  items: BatchSetItem[],
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  const { paceMs = DEFAULT_PACE_MS, onProgress } = options;
+  const results: BatchResult[] = [];
+
+  for (const [i, { value, ...item }] of items.entries()) {
+    if (i > 0 && paceMs > 0) await sleep(paceMs);
+
+    try {
+      const { raw, display } = resolveValue(item.group, item.endpoint, value);
+      await client.setValue(item.group, item.endpoint, raw, item.index);
+      results.push({ ...item, status: "ok", value: raw, human: display });
+    } catch (err) {
+      results.push({ ...item, status: "error", error: errorMessage(err) });
+    }
+    onProgress?.(i + 1, items.length);
+  }
+
+  return results;
+}
+
+/**
+ * Render batch results as a fixed-width table with a summary line.
+ */
+export function formatBatchResults(results: BatchResult[]): string {
+  const counts = { ok: 0, timeout: 0, error: 0 };
+  for (const r of results) counts[r.status]++;
+
+  const lines = [
+    `${results.length} item${results.length === 1 ? "" : "s"}: ${counts.ok} ok, ${counts.timeout} timed out, ${counts.error} failed`,
+    `${"─".repeat(70)}`,
+  ];
+  for (const r of results) {
+    const target = `${r.endpoint}${r.index !== undefined ? `/${r.index}` : ""}`;
+    const detail =
+      r.status === "ok"
+        ? `${JSON.stringify(r.value)}${r.human ? ` (${r.human})` : ""}`
+        : r.status === "timeout"
+          ? "no response"
+          : r.error;
+    lines.push(`  ${target.padEnd(36)} ${r.status.toUpperCase().padEnd(8)} ${detail}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,226 @@
+import { getEndpointInfo } from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { batchGet } from "./batch.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** A human channel reference resolved to a group and 0-based index */
+export interface ResolvedChannel {
+  group: string;
+  index: number;
+  /** Canonical human name, e.g. "input 5" (1-based) */
+  name: string;
+  /** Console label, when the channel was found by its label */
+  label?: string;
+}
+
+// ── Channel kinds ────────────────────────────────────────────────────────────
+
+interface ChannelKind {
+  /** Names accepted before the channel number, without spaces or hyphens */
+  names: string[];
+  group: string;
+  label: string;
+}
+
+const KINDS: ChannelKind[] = [
+  {
+    names: ["input", "inputs", "in", "ch", "channel", "mic", "micinput"],
+    group: "enVirtualMicInputs",
+    label: "input",
+  },
+  {
+    names: ["auxreturn", "auxret", "return", "ret"],
+    group: "enVirtualAuxReturns",
+    label: "aux return",
+  },
+  {
+    names: ["submix", "bus", "auxbus", "mix"],
+    group: "enVirtualSubMixes",
+    label: "submix",
+  },
+  {
+    names: ["main", "matrix", "mtx"],
+    group: "enVirtualMainOuts",
+    label: "main",
+  },
+  { names: ["master"], group: "enVirtualMasters", label: "master" },
+  { names: ["vca", "vcagroup"], group: "enVirtualVCAGroups", label: "VCA" },
+  { names: ["mutegroup", "mute"], group: "enVirtualMuteGroups", label: "mute group" },
+  { names: ["fx", "effect", "internalfx"], group: "enVirtualInternalFX", label: "FX" },
+  { names: ["geq"], group: "enVirtualGEQPool", label: "GEQ" },
+];
+
+/** Names that could mean more than one kind of channel */
+const AMBIGUOUS_NAMES: Record<string, string[]> = {
+  aux: ["aux return", "submix"],
+};
+
+/** Master buses may be given by letter, in index order */
+const MASTER_LETTERS = ["L", "R", "C"];
+
+const REF_RE = /^([a-z][a-z\s-]*?)\s*#?\s*(\d+|[lrc])$/i;
+
+/** How long label reads may be answered from the state cache */
+const LABEL_MAX_AGE_MS = 30_000;
+
+function instanceCount(group: string): number | undefined {
+  return getEndpointInfo(group, "enPathname")?.metadata?.indexCount;
+}
+
+function channelName(kind: ChannelKind, index: number): string {
+  const number = kind.group === "enVirtualMasters" ? MASTER_LETTERS[index] : index + 1;
+  return `${kind.label} ${number}`;
+}
+
+function normalizeLabel(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// ── Resolution ───────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a numbered reference such as "input 5", "aux return 2", "ch5" or
+ * "master L". Numbers are 1-based, as printed on the console. Returns null
+ * if the text is not of this form.
+ */
+export function parseChannelNumber(ref: string): ResolvedChannel | null {
+  const match = REF_RE.exec(ref.trim());
+  if (!match) return null;
+
+  const kindName = match[1].toLowerCase().replace(/[\s-]+/g, "");
+  const number = match[2].toUpperCase();
+
+  if (AMBIGUOUS_NAMES[kindName]) {
+    const options = AMBIGUOUS_NAMES[kindName].map((k) => `"${k} ${number}"`);
+    throw new Error(`"${ref}" is ambiguous; say ${options.join(" or ")}.`);
+  }
+  const kind = KINDS.find((k) => k.names.includes(kindName));
+  if (!kind) return null;
+
+  let index: number;
+  if (/^\d+$/.test(number)) {
+    index = parseInt(number, 10) - 1;
+  } else if (kind.group === "enVirtualMasters") {
+    index = MASTER_LETTERS.indexOf(number);
+  } else {
+    return null;
+  }
+
+  const count = instanceCount(kind.group);
+  if (index < 0 || (count !== undefined && index >= count)) {
+    const range = count !== undefined ? ` (1-${count})` : "";
+    throw new Error(`There is no ${kind.label} ${number}${range}.`);
+  }
+  return { group: kind.group, index, name: channelName(kind, index) };
+}
+
+/**
+ * Current labels of every channel in groups with a known instance count.
+ */
+async function readChannelLabels(
+  client: MidasOscClient
+): Promise<{ channel: ResolvedChannel; label: string }[]> {
+  const channels: ResolvedChannel[] = [];
+  for (const kind of KINDS) {
+    const count = instanceCount(kind.group);
+    if (count === undefined) continue;
+    for (let index = 0; index < count; index++) {
+      channels.push({ group: kind.group, index, name: channelName(kind, index) });
+    }
+  }
+
+  const results = await batchGet(
+    client,
+    channels.map(({ group, index }) => ({ group, endpoint: "enPathname", index })),
+    { paceMs: 2, maxAgeMs: LABEL_MAX_AGE_MS }
+  );
+  return results.flatMap((r, i) =>
+    r.status === "ok" && typeof r.value === "string" && r.value.trim() !== ""
+      ? [{ channel: channels[i], label: r.value }]
+      : []
+  );
+}
+
+/**
+ * Resolve a human channel reference: a 1-based number such as "input 5" or
+ * "aux return 3", or a channel label read from the console such as
+ * "Vocal 1". Throws, listing the candidates, when a label matches more than
+ * one channel or a numbered reference is also another channel's label;
+ * nothing is guessed.
+ */
+export async function resolveChannel(
+  ref: string,
+  client: MidasOscClient | null
+): Promise<ResolvedChannel> {
+  const numbered = parseChannelNumber(ref);
+  if (numbered && !client?.isConnected) return numbered;
+
+  if (!client?.isConnected) {
+    throw new Error(
+      `"${ref}" is not a channel number like "input 5". Connect to look it up by label.`
+    );
+  }
+
+  const wanted = normalizeLabel(ref);
+  const labels = await readChannelLabels(client);
+  const describe = (l: { channel: ResolvedChannel; label: string }) =>
+    `${l.channel.name} "${l.label}"`;
+  const exact = labels.filter((l) => normalizeLabel(l.label) === wanted);
+
+  if (numbered) {
+    // A channel labelled "Mix 1" may not be submix 1
+    const others = exact.filter(
+      (l) => l.channel.group !== numbered.group || l.channel.index !== numbered.index
+    );
+    if (others.length === 0) return numbered;
+    throw new Error(
+      `"${ref}" is ambiguous: it could be ${numbered.name} or the channel${others.length === 1 ? "" : "s"} labelled so, ${others.map(describe).join(", ")}. Use a group and index.`
+    );
+  }
+
+  if (exact.length === 1) {
+    return { ...exact[0].channel, label: exact[0].label };
+  }
+  if (exact.length > 1) {
+    throw new Error(
+      `"${ref}" matches ${exact.length} channels: ${exact.map(describe).join(", ")}. Use a channel number.`
+    );
+  }
+
+  const partial = labels.filter((l) => normalizeLabel(l.label).includes(wanted));
+  const hint =
+    partial.length > 0
+      ? ` Similar labels: ${partial.slice(0, 10).map(describe).join(", ")}.`
+      : "";
+  throw new Error(`No channel is labelled "${ref}".${hint}`);
+}
+
+/**
+ * Work out the group and index for a tool call that takes either a raw
+ * group/index or a human channel reference.
+ */
+export async function resolveTarget(
+  target: { group?: string; index?: number; channel?: string },
+  client: MidasOscClient | null
+): Promise<{ group: string; index?: number; resolved?: ResolvedChannel }> {
+  const { group, index, channel } = target;
+  if (channel === undefined) {
+    if (!group) throw new Error("Give a group (with index) or a channel.");
+    return { group, index };
+  }
+  if (index !== undefined) {
+    throw new Error("Give either channel or index, not both.");
+  }
+
+  const resolved = await resolveChannel(channel, client);
+  if (group && group !== resolved.group) {
+    throw new Error(`"${channel}" is ${resolved.name} in ${resolved.group}, not ${group}.`);
+  }
+  return { group: resolved.group, index: resolved.index, resolved };
+}
+
+export function formatResolved(resolved: ResolvedChannel): string {
+  const label = resolved.label ? ` "${resolved.label}"` : "";
+  return `Channel: ${resolved.name}${label} = ${resolved.group} index ${resolved.index}`;
+}
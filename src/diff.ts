@@ -0,0 +1,202 @@
+import { formatRaw } from "./units.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { batchGet, type BatchItem, type BatchOptions } from "./batch.js";
+import { validateChannelSnapshot } from "./snapshot.js";
+import {
+  validateShowFile,
+  valuesEqual,
+  keyToIndex,
+  toShowValues,
+  type ShowValue,
+  type ShowValues,
+} from "./show.js";
+import { indexKey } from "./state-cache.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * A state to compare: a show file, a channel snapshot, or a live read.
+ */
+export interface StateSource {
+  name: string;
+  takenAt?: string;
+  values: ShowValues;
+}
+
+export interface ValueChange {
+  endpoint: string;
+  from: ShowValue;
+  to: ShowValue;
+  fromHuman?: string;
+  toHuman?: string;
+}
+
+export interface ChannelDiff {
+  group: string;
+  index?: number;
+  label?: string;
+  changes: ValueChange[];
+}
+
+export interface StateDiff {
+  from: string;
+  to: string;
+  /** Parameters present on both sides */
+  compared: number;
+  changed: number;
+  /** Parameters present on only one side */
+  onlyInFrom: number;
+  onlyInTo: number;
+  /** Changed channels, keyed by group */
+  groups: Record<string, ChannelDiff[]>;
+}
+
+// ── Sources ──────────────────────────────────────────────────────────────────
+
+/**
+ * Turn a saved show file or channel snapshot into a comparable state.
+ */
+export function stateFromDocument(name: string, doc: unknown): StateSource {
+  const kind = (doc as { kind?: unknown } | null)?.kind;
+
+  if (kind === "channel") {
+    const snap = validateChannelSnapshot(doc);
+    const values: ShowValues = { [snap.group]: {} };
+    for (const [endpoint, { value }] of Object.entries(snap.values)) {
+      values[snap.group][endpoint] = { [indexKey(snap.index)]: value };
+    }
+    return { name, takenAt: snap.takenAt, values };
+  }
+
+  const show = validateShowFile(doc);
+  return { name, takenAt: show.takenAt, values: show.values };
+}
+
+/**
+ * Read the live value of every parameter in a reference state.
+ */
+export async function readLiveState(
+  client: MidasOscClient,
+  like: ShowValues,
+  options: BatchOptions = {}
+): Promise<StateSource> {
+  const items: BatchItem[] = [];
+  for (const [group, endpoints] of Object.entries(like)) {
+    for (const [endpoint, instances] of Object.entries(endpoints)) {
+      for (const key of Object.keys(instances)) {
+        items.push({ group, endpoint, index: keyToIndex(key) });
+      }
+    }
+  }
+
+  const results = await batchGet(client, items, options);
+  return {
+    name: "live console",
+    takenAt: new Date().toISOString(),
+    values: toShowValues(results),
+  };
+}
+
+// ── Diff ─────────────────────────────────────────────────────────────────────
+
+function channelLabel(values: ShowValues, group: string, key: string): string | undefined {
+  const label = values[group]?.enPathname?.[key];
+  return typeof label === "string" && label.length > 0 ? label : undefined;
+}
+
+/**
+ * Compare two states parameter by parameter, grouping changes per channel.
+ */
+export function diffStates(from: StateSource, to: StateSource): StateDiff {
+  const diff: StateDiff = {
+    from: from.name,
+    to: to.name,
+    compared: 0,
+    changed: 0,
+    onlyInFrom: 0,
+    onlyInTo: 0,
+    groups: {},
+  };
+  const channels = new Map<string, ChannelDiff>();
+
+  for (const [group, endpoints] of Object.entries(from.values)) {
+    for (const [endpoint, instances] of Object.entries(endpoints)) {
+      for (const [key, before] of Object.entries(instances)) {
+        const after = to.values[group]?.[endpoint]?.[key];
+        if (after === undefined) {
+          diff.onlyInFrom++;
+          continue;
+        }
+        diff.compared++;
+        if (valuesEqual(before, after)) continue;
+
+        const id = `${group}/${key}`;
+        let channel = channels.get(id);
+        if (!channel) {
+          channel = {
+            group,
+            index: keyToIndex(key),
+            label: channelLabel(to.values, group, key) ?? channelLabel(from.values, group, key),
+            changes: [],
+          };
+          channels.set(id, channel);
+          (diff.groups[group] ??= []).push(channel);
+        }
+        channel.changes.push({
+          endpoint,
+          from: before,
+          to: after,
+          fromHuman: formatRaw(group, endpoint, before) ?? undefined,
+          toHuman: formatRaw(group, endpoint, after) ?? undefined,
+        });
+        diff.changed++;
+      }
+    }
+  }
+
+  for (const [group, endpoints] of Object.entries(to.values)) {
+    for (const [endpoint, instances] of Object.entries(endpoints)) {
+      for (const key of Object.keys(instances)) {
+        if (from.values[group]?.[endpoint]?.[key] === undefined) diff.onlyInTo++;
+      }
+    }
+  }
+
+  for (const list of Object.values(diff.groups)) {
+    list.sort((a, b) => (a.index ?? -1) - (b.index ?? -1));
+  }
+  return diff;
+}
+
+function formatSide(value: ShowValue, human?: string): string {
+  return `${JSON.stringify(value)}${human ? ` (${human})` : ""}`;
+}
+
+/**
+ * Render a diff as text, one block per group and channel.
+ */
+export function formatStateDiff(diff: StateDiff): string {
+  const lines = [
+    `${diff.from} → ${diff.to}`,
+    `${diff.changed} of ${diff.compared} parameters changed`,
+  ];
+  if (diff.onlyInFrom > 0 || diff.onlyInTo > 0) {
+    lines.push(
+      `Not compared: ${diff.onlyInFrom} only in ${diff.from}, ${diff.onlyInTo} only in ${diff.to}`
+    );
+  }
+
+  for (const group of Object.keys(diff.groups).sort()) {
+    lines.push("", `${group}:`);
+    for (const channel of diff.groups[group]) {
+      const heading = channel.index !== undefined ? `[${channel.index}]` : "(group)";
+      lines.push(`  ${heading}${channel.label ? ` "${channel.label}"` : ""}`);
+      for (const c of channel.changes) {
+        lines.push(
+          `    ${c.endpoint.padEnd(32)} ${formatSide(c.from, c.fromHuman)} → ${formatSide(c.to, c.toHuman)}`
+        );
+      }
+    }
+  }
+  return lines.join("\n");
+}
@@ -1,6 +1,7 @@
-import { readFileSync } from "node:fs";
-import { resolve, dirname } from "node:path";
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
+import { getDataDir, writeJsonFile } from "./storage.js";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -10,6 +11,28 @@ export interface EndpointSpec {
   argumentType: "float" | "integer" | "string" | null;
   description: string;
   isAbsolute?: boolean;
+  metadata?: EndpointMetadata;
+  /** What the team has recorded about this endpoint, if anything */
+  annotation?: EndpointAnnotation;
+}
+
+/** Canonical engineering units. Seconds are normalized to ms, kHz to Hz. */
+export type Unit = "dB" | "Hz" | "ms" | "ratio" | "%";
+
+/**
+ * Structured metadata layered over an endpoint from the metadata overlay.
+ * Every field is optional; absent fields mean "not known".
+ */
+export interface EndpointMetadata {
+  /** Number of instances for indexed endpoints (valid indices 0..indexCount-1) */
+  indexCount?: number;
+  unit?: Unit;
+  /** Usable range, in `unit` if set, otherwise in raw 0-1 terms */
+  range?: { min: number; max: number };
+  /** Calibration points mapping raw 0-1 floats to `unit` values */
+  breakpoints?: { raw: number; value: number }[];
+  /** Labels for cycling switches, in the order the console steps through them */
+  options?: string[];
 }
 
 export type OscMessageType =
@@ -31,41 +54,267 @@ export interface SearchResult {
   endpoint: string;
   spec: EndpointSpec;
   oscPath: string;
+  source: string;
+  /** Relevance; higher is better */
+  score: number;
+}
+
+export interface ParsedOscPath {
+  type: string;
+  group: string;
+  endpoint: string;
+  index?: number;
 }
 
 // ── Data Store ───────────────────────────────────────────────────────────────
 
 type EndpointStore = Record<string, Record<string, EndpointSpec>>;
 
+/**
+ * A JSON endpoint database layered into the registry. Sources are applied in
+ * order, so a later source wins when two define the same group/endpoint.
+ */
+export interface EndpointSource {
+  id: string;
+  filename: string;
+}
+
+export interface EndpointConflict {
+  group: string;
+  endpoint: string;
+  /** Source whose definition is in effect */
+  keptSource: string;
+  /** Source whose definition was replaced */
+  overriddenSource: string;
+}
+
+interface RegisteredEndpoint {
+  spec: EndpointSpec;
+  source: string;
+  /** Spec before annotations were applied, kept so they can be re-applied */
+  base?: EndpointSpec;
+}
+
+interface EndpointRegistry {
+  groups: Record<string, Record<string, RegisteredEndpoint>>;
+  conflicts: EndpointConflict[];
+}
+
+/** Version of the metadata overlay format this build understands. */
+export const METADATA_SCHEMA_VERSION = 1;
+
+/**
+ * Metadata overlay file format. Group-level `indexCount` applies to every
+ * indexed endpoint in the group unless the endpoint sets its own.
+ */
+export interface MetadataOverlay {
+  schemaVersion: number;
+  groups: Record<
+    string,
+    {
+      indexCount?: number;
+      endpoints?: Record<string, EndpointMetadata>;
+    }
+  >;
+}
+
+export const ENDPOINT_SOURCES: readonly EndpointSource[] = [
+  { id: "main", filename: "pro-series-endpoints.json" },
+  { id: "fx", filename: "pro-series-internal-fx-parameters-endpoints.json" },
+];
+
+const METADATA_FILE = "pro-series-metadata.json";
+
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-function loadJson(filename: string): EndpointStore {
+function loadJson<T = EndpointStore>(filename: string): T {
   const filePath = resolve(__dirname, "..", "data", filename);
   const raw = readFileSync(filePath, "utf-8");
-  return JSON.parse(raw) as EndpointStore;
+  return JSON.parse(raw) as T;
+}
+
+function loadMetadataOverlay(): MetadataOverlay {
+  const overlay = loadJson<MetadataOverlay>(METADATA_FILE);
+  if (overlay.schemaVersion !== METADATA_SCHEMA_VERSION) {
+    throw new Error(
+      `${METADATA_FILE} has schema version ${overlay.schemaVersion}, expected ${METADATA_SCHEMA_VERSION}`
+    );
+  }
+  return overlay;
 }
 
-let mainEndpoints: EndpointStore | null = null;
-let fxEndpoints: EndpointStore | null = null;
+/**
+ * Attach overlay metadata to the registered endpoints. Overlay entries for
+ * endpoints that no source defines are reported and skipped.
+ */
+function applyMetadata(
+  groups: EndpointRegistry["groups"],
+  overlay: MetadataOverlay
+): void {
+  for (const [groupName, groupMeta] of Object.entries(overlay.groups)) {
+    const group = groups[groupName];
+    if (!group) {
+      console.error(`[midas-pro] Metadata overlay: unknown group ${groupName}`);
+      continue;
+    }
+
+    for (const [endpointName, entry] of Object.entries(group)) {
+      const endpointMeta = groupMeta.endpoints?.[endpointName];
+      const indexCount = entry.spec.multiPath ? groupMeta.indexCount : undefined;
+      if (!endpointMeta && indexCount === undefined) continue;
+
+      entry.spec = {
+        ...entry.spec,
+        metadata: { indexCount, ...endpointMeta },
+      };
+    }
 
-function getMainEndpoints(): EndpointStore {
-  if (!mainEndpoints) {
-    mainEndpoints = loadJson("pro-series-endpoints.json");
+    for (const endpointName of Object.keys(groupMeta.endpoints ?? {})) {
+      if (!group[endpointName]) {
+        console.error(
+          `[midas-pro] Metadata overlay: unknown endpoint ${groupName}/${endpointName}`
+        );
+      }
+    }
   }
-  return mainEndpoints;
 }
 
-function getFxEndpoints(): EndpointStore {
-  if (!fxEndpoints) {
-    fxEndpoints = loadJson(
-      "pro-series-internal-fx-parameters-endpoints.json"
+// ── Annotations ──────────────────────────────────────────────────────────────
+
+/** Version of the annotations file format this build understands. */
+export const ANNOTATIONS_SCHEMA_VERSION = 1;
+
+/**
+ * What has been learned about an endpoint on a real console. Description,
+ * unit, range, breakpoints and options replace what the databases say.
+ */
+export interface EndpointAnnotation
+  extends Pick<EndpointMetadata, "unit" | "range" | "breakpoints" | "options"> {
+  description?: string;
+  /** Firmware versions the annotation was checked against on a console */
+  verifiedOn?: string[];
+  notes?: string;
+  /** ISO timestamp of the last change */
+  updatedAt?: string;
+}
+
+/**
+ * Annotations file format (annotations.json in the data directory).
+ */
+export interface AnnotationsFile {
+  schemaVersion: number;
+  groups: Record<string, Record<string, EndpointAnnotation>>;
+}
+
+const METADATA_FIELDS = ["unit", "range", "breakpoints", "options"] as const;
+
+export function annotationsPath(): string {
+  return join(getDataDir(), "annotations.json");
+}
+
+/**
+ * Read the annotations file. A missing file is empty; an unreadable one is
+ * reported and ignored so a bad edit can't stop the server from starting.
+ */
+export function loadAnnotations(): AnnotationsFile {
+  const empty: AnnotationsFile = { schemaVersion: ANNOTATIONS_SCHEMA_VERSION, groups: {} };
+  const path = annotationsPath();
+  if (!existsSync(path)) return empty;
+
+  try {
+    const file = JSON.parse(readFileSync(path, "utf-8")) as AnnotationsFile;
+    if (file.schemaVersion !== ANNOTATIONS_SCHEMA_VERSION) {
+      console.error(
+        `[midas-pro] Annotations: ${path} has schema version ${file.schemaVersion}, expected ${ANNOTATIONS_SCHEMA_VERSION}; ignored`
+      );
+      return empty;
+    }
+    return { schemaVersion: file.schemaVersion, groups: file.groups ?? {} };
+  } catch (err) {
+    console.error(
+      `[midas-pro] Annotations: could not read ${path}: ${err instanceof Error ? err.message : String(err)}`
     );
+    return empty;
+  }
+}
+
+function annotateSpec(base: EndpointSpec, annotation: EndpointAnnotation): EndpointSpec {
+  const metadata: EndpointMetadata = { ...base.metadata };
+  for (const field of METADATA_FIELDS) {
+    if (annotation[field] !== undefined) {
+      (metadata as Record<string, unknown>)[field] = annotation[field];
+    }
   }
-  return fxEndpoints;
+  return {
+    ...base,
+    description: annotation.description ?? base.description,
+    metadata,
+    annotation,
+  };
 }
 
-function getAllEndpoints(): EndpointStore {
-  return { ...getMainEndpoints(), ...getFxEndpoints() };
+/**
+ * Layer annotations over the registered endpoints. Entries for endpoints
+ * that no source defines are reported and skipped.
+ */
+function applyAnnotations(
+  groups: EndpointRegistry["groups"],
+  annotations: AnnotationsFile
+): void {
+  for (const [groupName, endpoints] of Object.entries(annotations.groups)) {
+    for (const [endpointName, annotation] of Object.entries(endpoints)) {
+      const entry = groups[groupName]?.[endpointName];
+      if (!entry) {
+        console.error(
+          `[midas-pro] Annotations: unknown endpoint ${groupName}/${endpointName}`
+        );
+        continue;
+      }
+      entry.base ??= entry.spec;
+      entry.spec = annotateSpec(entry.base, annotation);
+    }
+  }
+}
+
+let registry: EndpointRegistry | null = null;
+
+/**
+ * Deep-merge every source into one registry, per group and per endpoint.
+ * Built once on first use.
+ */
+function buildRegistry(sources: readonly EndpointSource[]): EndpointRegistry {
+  const groups: EndpointRegistry["groups"] = {};
+  const conflicts: EndpointConflict[] = [];
+
+  for (const source of sources) {
+    const store = loadJson(source.filename);
+    for (const [groupName, endpoints] of Object.entries(store)) {
+      const group = (groups[groupName] ??= {});
+      for (const [endpointName, spec] of Object.entries(endpoints)) {
+        const existing = group[endpointName];
+        if (existing) {
+          conflicts.push({
+            group: groupName,
+            endpoint: endpointName,
+            keptSource: source.id,
+            overriddenSource: existing.source,
+          });
+        }
+        group[endpointName] = { spec, source: source.id };
+      }
+    }
+  }
+
+  applyMetadata(groups, loadMetadataOverlay());
+  applyAnnotations(groups, loadAnnotations());
+  return { groups, conflicts };
+}
+
+function getRegistry(): EndpointRegistry {
+  if (!registry) {
+    registry = buildRegistry(ENDPOINT_SOURCES);
+  }
+  return registry;
 }
 
 // ── Public API ───────────────────────────────────────────────────────────────
@@ -74,10 +323,10 @@ function getAllEndpoints(): EndpointStore {
  * List all control groups with summary info.
  */
 export function listGroups(): GroupInfo[] {
-  const all = getAllEndpoints();
-  return Object.entries(all).map(([name, endpoints]) => {
+  const { groups } = getRegistry();
+  return Object.entries(groups).map(([name, endpoints]) => {
     const messageTypes: Record<string, number> = {};
-    for (const spec of Object.values(endpoints)) {
+    for (const { spec } of Object.values(endpoints)) {
       messageTypes[spec.type] = (messageTypes[spec.type] ?? 0) + 1;
     }
     return {
@@ -93,14 +342,14 @@ export function listGroups(): GroupInfo[] {
  */
 export function listEndpoints(
   group: string
-): { endpoint: string; spec: EndpointSpec }[] | null {
-  const all = getAllEndpoints();
-  const groupData = all[group];
+): { endpoint: string; spec: EndpointSpec; source: string }[] | null {
+  const groupData = getRegistry().groups[group];
   if (!groupData) return null;
 
-  return Object.entries(groupData).map(([endpoint, spec]) => ({
+  return Object.entries(groupData).map(([endpoint, { spec, source }]) => ({
     endpoint,
     spec,
+    source,
   }));
 }
 
@@ -111,8 +360,63 @@ export function getEndpointInfo(
   group: string,
   endpoint: string
 ): EndpointSpec | null {
-  const all = getAllEndpoints();
-  return all[group]?.[endpoint] ?? null;
+  return getRegistry().groups[group]?.[endpoint]?.spec ?? null;
+}
+
+/** Graphic EQ band gain rotaries, enGEQBand1 to enGEQBand31 */
+export const GEQ_BAND_RE = /^enGEQ[AB]?Band\d+$/;
+
+/**
+ * Argument type to send to an endpoint. String messages always carry a
+ * string, even where the database lists no argument type for them. The
+ * graphic EQ band gains are listed without one too but take a float, as
+ * every other rotary does.
+ */
+export function argumentTypeOf(
+  spec: EndpointSpec,
+  endpoint: string
+): EndpointSpec["argumentType"] {
+  if (spec.argumentType !== null) return spec.argumentType;
+  if (spec.type === "enPPCStringMessage") return "string";
+  if (spec.type === "enPPCRotaryMessage" && GEQ_BAND_RE.test(endpoint)) return "float";
+  return null;
+}
+
+/**
+ * Get the id of the source database an endpoint was loaded from.
+ */
+export function getEndpointSource(
+  group: string,
+  endpoint: string
+): string | null {
+  return getRegistry().groups[group]?.[endpoint]?.source ?? null;
+}
+
+/**
+ * List every group/endpoint defined by more than one source.
+ */
+export function getConflicts(): EndpointConflict[] {
+  return getRegistry().conflicts;
+}
+
+/**
+ * Check an index against an endpoint's known instance count. Returns an error
+ * message, or null if the index is acceptable (or the count is unknown).
+ */
+export function checkIndex(
+  group: string,
+  endpoint: string,
+  index: number | undefined
+): string | null {
+  const spec = getEndpointInfo(group, endpoint);
+  const count = spec?.metadata?.indexCount;
+  if (!spec?.multiPath || index === undefined || count === undefined) {
+    return null;
+  }
+  if (index < 0 || index >= count) {
+    return `Index ${index} is out of range for ${group}/${endpoint} (valid: 0-${count - 1}, ${count} instances).`;
+  }
+  return null;
 }
 
 /**
@@ -135,55 +439,321 @@ export function buildOscPath(
 }
 
 /**
- * Search across all endpoints by keyword. Matches against endpoint names,
- * descriptions, group names, and message types.
+ * Split an OSC path of the form /messageType/group/endpoint[/index] into its
+ * parts. Only checks the shape; the endpoint may not exist.
+ */
+export function parseOscPath(path: string): ParsedOscPath | null {
+  const parts = path.split("/");
+  if (parts[0] !== "" || parts.length < 4 || parts.length > 5) return null;
+
+  const [, type, group, endpoint, indexStr] = parts;
+  if (!type || !group || !endpoint) return null;
+  if (indexStr === undefined) return { type, group, endpoint };
+
+  if (!/^\d+$/.test(indexStr)) return null;
+  return { type, group, endpoint, index: parseInt(indexStr, 10) };
+}
+
+// ── Search ───────────────────────────────────────────────────────────────────
+
+interface IndexedEndpoint {
+  group: string;
+  endpoint: string;
+  spec: EndpointSpec;
+  source: string;
+  /** Endpoint name split on camelCase, without the "en" prefix */
+  nameTokens: string[];
+  /** Endpoint name lower-cased, without the "en" prefix */
+  nameJoined: string;
+  groupTokens: string[];
+  descriptionTokens: string[];
+  typeTokens: string[];
+}
+
+interface SearchIndex {
+  entries: IndexedEndpoint[];
+  /** Every token in the index, for typo matching */
+  vocabulary: Set<string>;
+}
+
+/**
+ * Audio terms mapped onto the words the endpoint database uses. Each entry
+ * lists alternatives; a term may match any of them.
+ */
+const SYNONYMS: Record<string, string[]> = {
+  volume: ["fader", "level"],
+  vol: ["fader", "level"],
+  comp: ["complim", "comlim", "comp"],
+  compressor: ["complim", "comlim", "comp"],
+  compression: ["complim", "comlim", "comp"],
+  limiter: ["complim", "lim"],
+  gate: ["gate", "expgate", "dynamics"],
+  expander: ["expgate", "expander"],
+  dynamics: ["dynamics", "complim", "expgate"],
+  dyn: ["dynamics", "complim", "expgate"],
+  eq: ["peq", "geq", "eq"],
+  equalizer: ["peq", "geq", "eq"],
+  equaliser: ["peq", "geq", "eq"],
+  hpf: ["highpass", "hp"],
+  lpf: ["lowpass", "lp"],
+  freq: ["frequency"],
+  q: ["width"],
+  bandwidth: ["width", "bandwidth"],
+  label: ["pathname", "label"],
+  name: ["pathname", "name"],
+  trim: ["gain"],
+  preamp: ["gain", "micsplit"],
+  phantom: ["phantom"],
+  "48v": ["phantom"],
+  polarity: ["phase"],
+  invert: ["phase"],
+  bus: ["submix", "mix"],
+  aux: ["aux", "submix"],
+  matrix: ["main"],
+  channel: ["input"],
+  reverb: ["ifx", "fx"],
+  effect: ["ifx", "fx"],
+  effects: ["ifx", "fx"],
+  makeup: ["makeup"],
+  pan: ["pan", "balance"],
+};
+
+const STOP_WORDS = new Set(["the", "a", "an", "of", "for", "to", "and", "with"]);
+
+/** Relative weight of a match in each field */
+const FIELD_WEIGHTS = { name: 3, group: 1.5, description: 1, type: 1 };
+
+/** Score for each kind of match, before field weights */
+const MATCH_SCORES = { exact: 1, prefix: 0.8, joined: 0.8, typo: 0.5 };
+
+/** Bonus for each further synonym of a word that also appears in the name */
+const EXTRA_SYNONYM_BONUS = 0.2;
+
+/** Synonym matches count slightly less than the words actually typed */
+const SYNONYM_FACTOR = 0.9;
+
+/**
+ * Split an identifier or phrase into lower-case words, breaking camelCase
+ * and digit runs: "enGEQBand12" -> ["en", "geq", "band", "12"].
+ */
+export function tokenize(text: string): string[] {
+  return (text.match(/[A-Z]+(?=[A-Z][a-z])|[A-Z]?[a-z]+|[A-Z]+|\d+/g) ?? []).map((t) =>
+    t.toLowerCase()
+  );
+}
+
+function stripPrefix(tokens: string[]): string[] {
+  return tokens[0] === "en" ? tokens.slice(1) : tokens;
+}
+
+let searchIndex: SearchIndex | null = null;
+
+/**
+ * Tokenize every endpoint once, on first search.
+ */
+function getSearchIndex(): SearchIndex {
+  if (searchIndex) return searchIndex;
+
+  const entries: IndexedEndpoint[] = [];
+  const vocabulary = new Set<string>();
+  for (const [group, endpoints] of Object.entries(getRegistry().groups)) {
+    const groupTokens = stripPrefix(tokenize(group));
+    for (const [endpoint, { spec, source }] of Object.entries(endpoints)) {
+      const entry: IndexedEndpoint = {
+        group,
+        endpoint,
+        spec,
+        source,
+        nameTokens: stripPrefix(tokenize(endpoint)),
+        nameJoined: endpoint.replace(/^en/, "").toLowerCase(),
+        groupTokens,
+        descriptionTokens: tokenize(spec.description),
+        typeTokens: stripPrefix(tokenize(spec.type)).filter(
+          (t) => t !== "ppc" && t !== "message"
+        ),
+      };
+      for (const t of [
+        ...entry.nameTokens,
+        ...entry.groupTokens,
+        ...entry.descriptionTokens,
+        ...entry.typeTokens,
+      ]) {
+        vocabulary.add(t);
+      }
+      entries.push(entry);
+    }
+  }
+
+  searchIndex = { entries, vocabulary };
+  return searchIndex;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Typos allowed in a word of this length */
+function allowedTypos(word: string): number {
+  if (word.length >= 8) return 2;
+  if (word.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * How well each vocabulary token matches one query word: exact or as a
+ * prefix, or, only if neither occurs anywhere, within a typo or two.
+ */
+function tokenScores(word: string, vocabulary: Set<string>): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const token of vocabulary) {
+    if (token === word) {
+      scores.set(token, MATCH_SCORES.exact);
+    } else if (word.length >= 2 && token.startsWith(word)) {
+      scores.set(token, MATCH_SCORES.prefix);
+    }
+  }
+  if (scores.size > 0) return scores;
+
+  const typos = allowedTypos(word);
+  if (typos === 0) return scores;
+  for (const token of vocabulary) {
+    if (editDistance(word, token, typos) <= typos) {
+      scores.set(token, MATCH_SCORES.typo);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Matchers for one query word: the word itself and its synonyms, each with
+ * its token scores and a weight.
+ */
+function termMatchers(
+  term: string,
+  vocabulary: Set<string>
+): { word: string; weight: number; scores: Map<string, number> }[] {
+  // A misspelt audio term ("compresor") still brings in its synonyms
+  const typos = allowedTypos(term);
+  const key =
+    term in SYNONYMS
+      ? term
+      : Object.keys(SYNONYMS).find(
+          (k) => typos > 0 && editDistance(term, k, typos) <= typos
+        );
+  const words = new Map<string, number>([[term, 1]]);
+  for (const synonym of key ? SYNONYMS[key] : []) {
+    if (!words.has(synonym)) words.set(synonym, SYNONYM_FACTOR);
+  }
+  return [...words].map(([word, weight]) => ({
+    word,
+    weight,
+    scores: tokenScores(word, vocabulary),
+  }));
+}
+
+function fieldScore(tokens: string[], scores: Map<string, number>): number {
+  let best = 0;
+  for (const t of tokens) best = Math.max(best, scores.get(t) ?? 0);
+  return best;
+}
+
+/**
+ * Search across all endpoints. Query words are split like endpoint names,
+ * expanded with audio synonyms ("volume" -> fader, "comp" -> CompLim) and
+ * matched with typo tolerance against endpoint names, group names,
+ * descriptions and message types. Every word must match somewhere; results
+ * are ranked by relevance, name matches first.
  */
 export function searchEndpoints(
   query: string,
   options?: { group?: string; type?: OscMessageType }
 ): SearchResult[] {
-  const all = getAllEndpoints();
-  const terms = query.toLowerCase().split(/\s+/);
+  const { entries, vocabulary } = getSearchIndex();
+  const terms = query
+    .split(/[^A-Za-z0-9]+/)
+    .flatMap((word) => (SYNONYMS[word.toLowerCase()] ? [word.toLowerCase()] : tokenize(word)))
+    .filter((t) => !STOP_WORDS.has(t));
+  if (terms.length === 0) return [];
+
+  const matchers = terms.map((term) => termMatchers(term, vocabulary));
   const results: SearchResult[] = [];
 
-  for (const [groupName, endpoints] of Object.entries(all)) {
-    // Filter by group if specified
-    if (options?.group && groupName !== options.group) continue;
-
-    for (const [endpointName, spec] of Object.entries(endpoints)) {
-      // Filter by type if specified
-      if (options?.type && spec.type !== options.type) continue;
-
-      // Build a searchable string from all fields
-      const searchable = [
-        groupName,
-        endpointName,
-        spec.description,
-        spec.type,
-      ]
-        .join(" ")
-        .toLowerCase();
-
-      // All search terms must match
-      if (terms.every((term) => searchable.includes(term))) {
-        results.push({
-          group: groupName,
-          endpoint: endpointName,
-          spec,
-          oscPath: `/${spec.type}/${groupName}/${endpointName}`,
-        });
+  for (const entry of entries) {
+    if (options?.group && entry.group !== options.group) continue;
+    if (options?.type && entry.spec.type !== options.type) continue;
+
+    let score = 0;
+    let nameHits = 0;
+    for (const alternatives of matchers) {
+      let best = 0;
+      let inName = false;
+      let namedAlternatives = 0;
+      for (const { word, weight, scores } of alternatives) {
+        const name = Math.max(
+          fieldScore(entry.nameTokens, scores),
+          word.length >= 3 && entry.nameJoined.includes(word) ? MATCH_SCORES.joined : 0
+        );
+        if (name > 0) namedAlternatives++;
+        const candidates = [
+          name * FIELD_WEIGHTS.name,
+          fieldScore(entry.groupTokens, scores) * FIELD_WEIGHTS.group,
+          fieldScore(entry.descriptionTokens, scores) * FIELD_WEIGHTS.description,
+          fieldScore(entry.typeTokens, scores) * FIELD_WEIGHTS.type,
+        ].map((s) => s * weight);
+        const termBest = Math.max(...candidates);
+        if (termBest > best) {
+          best = termBest;
+          inName = candidates[0] === termBest && name > 0;
+        }
+      }
+      if (best === 0) {
+        score = 0;
+        break;
       }
+      score += best + Math.max(0, namedAlternatives - 1) * EXTRA_SYNONYM_BONUS;
+      if (inName) nameHits++;
     }
+    if (score === 0) continue;
+
+    // Prefer names that are mostly made of the query words
+    score += nameHits / entry.nameTokens.length;
+    results.push({
+      group: entry.group,
+      endpoint: entry.endpoint,
+      spec: entry.spec,
+      oscPath: `/${entry.spec.type}/${entry.group}/${entry.endpoint}`,
+      source: entry.source,
+      score: Math.round(score * 100) / 100,
+    });
   }
 
-  return results;
+  return results.sort((a, b) => b.score - a.score);
 }
 
 /**
  * Get all valid group names.
  */
 export function getGroupNames(): string[] {
-  return Object.keys(getAllEndpoints());
+  return Object.keys(getRegistry().groups);
 }
 
 /**
@@ -194,26 +764,138 @@ export function getStats(): {
   totalEndpoints: number;
   documentedEndpoints: number;
   byMessageType: Record<string, number>;
+  bySource: Record<string, number>;
+  conflicts: number;
+  annotatedEndpoints: number;
 } {
-  const all = getAllEndpoints();
+  const { groups, conflicts } = getRegistry();
   let totalEndpoints = 0;
   let documentedEndpoints = 0;
+  let annotatedEndpoints = 0;
   const byMessageType: Record<string, number> = {};
+  const bySource: Record<string, number> = {};
 
-  for (const endpoints of Object.values(all)) {
-    for (const spec of Object.values(endpoints)) {
+  for (const endpoints of Object.values(groups)) {
+    for (const { spec, source } of Object.values(endpoints)) {
       totalEndpoints++;
       byMessageType[spec.type] = (byMessageType[spec.type] ?? 0) + 1;
+      bySource[source] = (bySource[source] ?? 0) + 1;
       if (spec.description && !spec.description.includes("(unknown)")) {
         documentedEndpoints++;
       }
+      if (spec.annotation) annotatedEndpoints++;
     }
   }
 
   return {
-    totalGroups: Object.keys(all).length,
+    totalGroups: Object.keys(groups).length,
     totalEndpoints,
     documentedEndpoints,
     byMessageType,
+    bySource,
+    conflicts: conflicts.length,
+    annotatedEndpoints,
+  };
+}
+
+// ── Annotation editing ───────────────────────────────────────────────────────
+
+function validateAnnotation(annotation: EndpointAnnotation): void {
+  if (annotation.description !== undefined && annotation.description.trim() === "") {
+    throw new Error("description must not be empty.");
+  }
+  const { range, breakpoints, options } = annotation;
+  if (range && !(range.min < range.max)) {
+    throw new Error("range.min must be less than range.max.");
+  }
+  if (breakpoints) {
+    if (breakpoints.length < 2) {
+      throw new Error("Give at least two breakpoints.");
+    }
+    if (breakpoints.some((b) => b.raw < 0 || b.raw > 1)) {
+      throw new Error("Breakpoint raw values must be between 0 and 1.");
+    }
+  }
+  if (options && options.length === 0) {
+    throw new Error("options must not be empty.");
+  }
+}
+
+/**
+ * Record what was learned about an endpoint. Given fields replace the
+ * existing annotation's; firmware versions are added to those already
+ * verified. The file is written and the change takes effect immediately.
+ */
+export function saveAnnotation(
+  group: string,
+  endpoint: string,
+  changes: EndpointAnnotation
+): EndpointAnnotation {
+  const entry = getRegistry().groups[group]?.[endpoint];
+  if (!entry) {
+    throw new Error(`Unknown endpoint ${group}/${endpoint}`);
+  }
+
+  const file = loadAnnotations();
+  const existing = file.groups[group]?.[endpoint] ?? {};
+  const defined = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as EndpointAnnotation;
+  const verifiedOn = [...new Set([...(existing.verifiedOn ?? []), ...(changes.verifiedOn ?? [])])];
+
+  const annotation: EndpointAnnotation = {
+    ...existing,
+    ...defined,
+    ...(verifiedOn.length > 0 ? { verifiedOn } : {}),
+    updatedAt: new Date().toISOString(),
   };
+  validateAnnotation(annotation);
+  if (annotation.breakpoints && !annotation.unit && !entry.spec.metadata?.unit) {
+    throw new Error("Breakpoints need a unit.");
+  }
+
+  (file.groups[group] ??= {})[endpoint] = annotation;
+  writeJsonFile(annotationsPath(), file);
+
+  entry.base ??= entry.spec;
+  entry.spec = annotateSpec(entry.base, annotation);
+  searchIndex = null;
+  return annotation;
+}
+
+/**
+ * Annotations rewritten as patches to the shipped data files, keyed by file
+ * name: descriptions for the endpoint database the endpoint came from, and
+ * units, ranges, breakpoints and options for the metadata overlay.
+ */
+export function exportAnnotationsUpstream(group?: string): Record<string, unknown> {
+  const { groups } = getRegistry();
+  const databases: Record<string, EndpointStore> = {};
+  const metadata: MetadataOverlay = { schemaVersion: METADATA_SCHEMA_VERSION, groups: {} };
+
+  for (const [groupName, endpoints] of Object.entries(loadAnnotations().groups)) {
+    if (group && groupName !== group) continue;
+    for (const [endpointName, annotation] of Object.entries(endpoints)) {
+      const entry = groups[groupName]?.[endpointName];
+      if (!entry) continue;
+
+      if (annotation.description !== undefined) {
+        const filename = ENDPOINT_SOURCES.find((s) => s.id === entry.source)!.filename;
+        const { metadata: _metadata, annotation: _annotation, ...spec } = entry.spec;
+        ((databases[filename] ??= {})[groupName] ??= {})[endpointName] = spec;
+      }
+
+      const fields = Object.fromEntries(
+        METADATA_FIELDS.filter((f) => annotation[f] !== undefined).map((f) => [f, annotation[f]])
+      );
+      if (Object.keys(fields).length > 0) {
+        const groupMeta = (metadata.groups[groupName] ??= {});
+        (groupMeta.endpoints ??= {})[endpointName] = fields;
+      }
+    }
+  }
+
+  return Object.keys(metadata.groups).length > 0
+    ? { ...databases, [METADATA_FILE]: metadata }
+    : databases;
 }
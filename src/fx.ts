@@ -0,0 +1,365 @@
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { buildOscPath, getEndpointInfo, type EndpointMetadata } from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { safetyEngine } from "./safety.js";
+import { batchGet, type BatchOptions } from "./batch.js";
+import {
+  curveFromMetadata,
+  formatQuantity,
+  parseQuantity,
+  rawToValue,
+  valueToRaw,
+  type Breakpoint,
+} from "./units.js";
+import { readJsonFile, storePath, writeJsonFile } from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export const FX_CATALOGUE_SCHEMA_VERSION = 1;
+
+/** One named parameter of an effect, mapped onto a numbered FX slot */
+export interface FxParameter {
+  /** 1-based slot: written via enIFXWriteParam_N, read via enIFXReadParamN */
+  slot: number;
+  label: string;
+  unit?: EndpointMetadata["unit"];
+  breakpoints?: Breakpoint[];
+  /** Labels for stepped parameters, spread evenly over 0-1 */
+  options?: string[];
+}
+
+export interface FxEffect {
+  name: string;
+  /**
+   * True once the slot layout has been checked against a console. Writes
+   * to unverified effects need confirmation; absent means unverified.
+   */
+  verified?: boolean;
+  /** Other names the effect is known by, also matched against FX labels */
+  aliases?: string[];
+  parameters: Record<string, FxParameter>;
+}
+
+/**
+ * Effect catalogue file format (data/pro-series-fx-catalogue.json).
+ */
+export interface FxCatalogue {
+  schemaVersion: number;
+  effects: Record<string, FxEffect>;
+}
+
+export interface FxParameterValue {
+  id: string;
+  label: string;
+  raw: number | null;
+  human: string | null;
+}
+
+export interface FxReading {
+  fx: number;
+  label?: string;
+  /** Catalogue id of the effect, or null if the type is not known */
+  effect: string | null;
+  /** How the effect type was decided */
+  effectSource?: "given" | "assigned" | "label";
+  parameters: FxParameterValue[];
+}
+
+// ── Catalogue ────────────────────────────────────────────────────────────────
+
+export const FX_GROUP = "enVirtualInternalFX";
+
+const CATALOGUE_FILE = "pro-series-fx-catalogue.json";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+let catalogue: FxCatalogue | null = null;
+
+/**
+ * Check every parameter slot against the FX endpoint database. Problems are
+ * reported and the parameter skipped, like unknown metadata overlay entries.
+ */
+function checkCatalogue(loaded: FxCatalogue): FxCatalogue {
+  for (const [id, effect] of Object.entries(loaded.effects)) {
+    for (const [paramId, param] of Object.entries(effect.parameters)) {
+      const known =
+        Number.isInteger(param.slot) &&
+        getEndpointInfo(FX_GROUP, writeEndpoint(param)) &&
+        getEndpointInfo(FX_GROUP, readEndpoint(param));
+      if (!known) {
+        console.error(
+          `[midas-pro] FX catalogue: ${id}/${paramId} has no FX slot ${param.slot}`
+        );
+        delete effect.parameters[paramId];
+      }
+    }
+  }
+  return loaded;
+}
+
+/**
+ * The effect catalogue, loaded once on first use.
+ */
+export function getFxCatalogue(): FxCatalogue {
+  if (!catalogue) {
+    const filePath = resolve(__dirname, "..", "data", CATALOGUE_FILE);
+    const loaded = JSON.parse(readFileSync(filePath, "utf-8")) as FxCatalogue;
+    if (loaded.schemaVersion !== FX_CATALOGUE_SCHEMA_VERSION) {
+      throw new Error(
+        `${CATALOGUE_FILE} has schema version ${loaded.schemaVersion}, expected ${FX_CATALOGUE_SCHEMA_VERSION}`
+      );
+    }
+    catalogue = checkCatalogue(loaded);
+  }
+  return catalogue;
+}
+
+function writeEndpoint(param: FxParameter): string {
+  return `enIFXWriteParam_${param.slot}`;
+}
+
+function readEndpoint(param: FxParameter): string {
+  return `enIFXReadParam${param.slot}`;
+}
+
+/** Lower-case and drop spaces, hyphens and underscores: "Pre-delay" -> "predelay" */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+/**
+ * Find an effect by id, name or alias.
+ */
+export function resolveEffect(name: string): { id: string; effect: FxEffect } {
+  const wanted = normalizeName(name);
+  for (const [id, effect] of Object.entries(getFxCatalogue().effects)) {
+    const names = [id, effect.name, ...(effect.aliases ?? [])].map(normalizeName);
+    if (names.includes(wanted)) return { id, effect };
+  }
+  const known = Object.keys(getFxCatalogue().effects).join(", ");
+  throw new Error(`Unknown effect "${name}". Known effects: ${known}.`);
+}
+
+/**
+ * Find a parameter of an effect by id or label.
+ */
+export function resolveParameter(
+  effect: FxEffect,
+  name: string
+): { id: string; param: FxParameter } {
+  const wanted = normalizeName(name);
+  for (const [id, param] of Object.entries(effect.parameters)) {
+    if (normalizeName(id) === wanted || normalizeName(param.label) === wanted) {
+      return { id, param };
+    }
+  }
+  const known = Object.values(effect.parameters)
+    .map((p) => p.label)
+    .join(", ");
+  throw new Error(`${effect.name} has no parameter "${name}". Parameters: ${known}.`);
+}
+
+/**
+ * Guess the effect from an FX label such as "Vox Plate" or "Slap Delay".
+ */
+export function effectFromLabel(label: string): string | null {
+  const words = label.toLowerCase();
+  for (const [id, effect] of Object.entries(getFxCatalogue().effects)) {
+    const names = [id, effect.name, ...(effect.aliases ?? [])];
+    if (names.some((n) => words.includes(n.toLowerCase()))) return id;
+  }
+  return null;
+}
+
+// ── Values ───────────────────────────────────────────────────────────────────
+
+export function formatFxValue(param: FxParameter, raw: number): string {
+  if (param.options && param.options.length > 0) {
+    const step = Math.round(raw * (param.options.length - 1));
+    return param.options[Math.max(0, Math.min(param.options.length - 1, step))];
+  }
+  const curve = curveFromMetadata(param);
+  if (curve) {
+    return formatQuantity({ value: rawToValue(curve, raw), unit: curve.unit });
+  }
+  return raw.toFixed(3);
+}
+
+/**
+ * Convert a value for a parameter ("2.4 s", "30%", an option label or a
+ * raw 0-1 number) into the float sent to its slot.
+ */
+export function fxValueToRaw(param: FxParameter, value: number | string): number {
+  if (typeof value === "number") {
+    if (value < 0 || value > 1) {
+      throw new Error(`Raw values must be between 0 and 1; give "${value}" with a unit instead.`);
+    }
+    return value;
+  }
+
+  if (param.options && param.options.length > 0) {
+    const at = param.options.findIndex((o) => normalizeName(o) === normalizeName(value));
+    if (at < 0) {
+      throw new Error(`${param.label} must be one of: ${param.options.join(", ")}.`);
+    }
+    return param.options.length === 1 ? 0 : at / (param.options.length - 1);
+  }
+
+  const quantity = parseQuantity(value);
+  const curve = curveFromMetadata(param);
+  if (!quantity || !curve) {
+    throw new Error(
+      curve
+        ? `Could not parse "${value}". Give a value in ${curve.unit} (e.g. "${formatQuantity({ value: curve.points[0].value, unit: curve.unit })}").`
+        : `${param.label} has no unit in the catalogue. Give a raw 0-1 number.`
+    );
+  }
+  if (quantity.unit !== curve.unit) {
+    throw new Error(`${param.label} is measured in ${curve.unit}, not ${quantity.unit}.`);
+  }
+  return valueToRaw(curve, quantity.value);
+}
+
+// ── Rack assignments ─────────────────────────────────────────────────────────
+
+/** Effect type last used for each FX, keyed by FX index */
+type RackAssignments = Record<string, string>;
+
+function rackPath(): string {
+  return storePath("fx", "rack");
+}
+
+function loadAssignments(): RackAssignments {
+  return existsSync(rackPath()) ? readJsonFile<RackAssignments>(rackPath()) : {};
+}
+
+/**
+ * Remember which effect an FX runs, so later reads can name its parameters.
+ */
+export function assignEffect(fx: number, effectId: string): void {
+  const assignments = loadAssignments();
+  if (assignments[fx] === effectId) return;
+  assignments[fx] = effectId;
+  writeJsonFile(rackPath(), assignments);
+}
+
+export function assignedEffect(fx: number): string | null {
+  return loadAssignments()[fx] ?? null;
+}
+
+// ── Read / Write ─────────────────────────────────────────────────────────────
+
+/**
+ * Read one FX in readable form. The effect type is taken from `effect` if
+ * given, then from the remembered assignment, then guessed from the FX
+ * label; unknown effects come back with no named parameters.
+ */
+export async function readFx(
+  client: MidasOscClient,
+  fx: number,
+  effect: string | undefined,
+  options: BatchOptions = {}
+): Promise<FxReading> {
+  const [labelResult] = await batchGet(
+    client,
+    [{ group: FX_GROUP, endpoint: "enPathname", index: fx }],
+    options
+  );
+  const label =
+    labelResult.status === "ok" && typeof labelResult.value === "string"
+      ? labelResult.value
+      : undefined;
+
+  const reading: FxReading = { fx, label, effect: null, parameters: [] };
+  if (effect) {
+    reading.effect = resolveEffect(effect).id;
+    reading.effectSource = "given";
+  } else if (assignedEffect(fx)) {
+    reading.effect = assignedEffect(fx);
+    reading.effectSource = "assigned";
+  } else if (label && effectFromLabel(label)) {
+    reading.effect = effectFromLabel(label);
+    reading.effectSource = "label";
+  }
+  if (!reading.effect) return reading;
+
+  const params = Object.entries(resolveEffect(reading.effect).effect.parameters);
+  const results = await batchGet(
+    client,
+    params.map(([, param]) => ({ group: FX_GROUP, endpoint: readEndpoint(param), index: fx })),
+    options
+  );
+  reading.parameters = params.map(([id, param], i) => {
+    const r = results[i];
+    const raw = r.status === "ok" && typeof r.value === "number" ? r.value : null;
+    return {
+      id,
+      label: param.label,
+      raw,
+      human: raw === null ? null : formatFxValue(param, raw),
+    };
+  });
+  return reading;
+}
+
+/**
+ * Hold back a write to an effect whose slot layout is unverified until the
+ * user confirms it, since the slot may drive a different parameter on the
+ * console. Returns true if the write may be sent.
+ */
+function approveUnverified(
+  fx: number,
+  effect: FxEffect,
+  param: FxParameter,
+  raw: number
+): boolean {
+  if (effect.verified) return true;
+  const endpoint = writeEndpoint(param);
+  return safetyEngine.requireConfirmation(
+    {
+      group: FX_GROUP,
+      endpoint,
+      index: fx,
+      path: buildOscPath(FX_GROUP, endpoint, fx)!,
+      value: raw,
+      spec: getEndpointInfo(FX_GROUP, endpoint)!,
+    },
+    `the ${effect.name} slot layout is unverified; slot ${param.slot} may not be ${param.label} on the console`,
+    "fx-unverified"
+  );
+}
+
+/**
+ * Set one named parameter of an FX. Returns what was sent, or null if the
+ * effect is unverified and the write is pending confirmation.
+ */
+export async function writeFxParameter(
+  client: MidasOscClient,
+  fx: number,
+  effect: string,
+  parameter: string,
+  value: number | string
+): Promise<{ effect: FxEffect; param: FxParameter; raw: number; human: string } | null> {
+  const { effect: resolved } = resolveEffect(effect);
+  const { param } = resolveParameter(resolved, parameter);
+  const raw = fxValueToRaw(param, value);
+  if (!approveUnverified(fx, resolved, param, raw)) return null;
+  await client.setValue(FX_GROUP, writeEndpoint(param), raw, fx);
+  return { effect: resolved, param, raw, human: formatFxValue(param, raw) };
+}
+
+export function formatFxReading(reading: FxReading): string {
+  const resolved = reading.effect ? resolveEffect(reading.effect).effect : null;
+  const effect = resolved ? `${resolved.name}${resolved.verified ? "" : " [unverified]"}` : null;
+  const source =
+    reading.effectSource === "label" ? " (guessed from label)" : "";
+  const lines = [
+    `FX ${reading.fx}${reading.label ? ` "${reading.label}"` : ""}: ${effect ? `${effect}${source}` : "effect type unknown"}`,
+  ];
+  for (const p of reading.parameters) {
+    lines.push(`  ${p.label.padEnd(14)} ${p.human ?? "(no response)"}`);
+  }
+  return lines.join("\n");
+}
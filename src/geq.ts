@@ -0,0 +1,387 @@
+import type { MidasOscClient } from "./osc-client.js";
+import {
+  batchGet,
+  batchSet,
+  type BatchOptions,
+  type BatchResult,
+} from "./batch.js";
+import {
+  GEQ_RANGE_DB,
+  getUnitCurve,
+  parseQuantity,
+  rawToValue,
+  valueToRaw,
+} from "./units.js";
+import {
+  listStore,
+  readJsonFile,
+  storePath,
+  writeJsonFile,
+  findInStores,
+} from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export const GEQ_PRESET_VERSION = 1;
+
+/** Band gains in dB, one per ISO band; null where a band did not answer */
+export type GeqCurve = (number | null)[];
+
+export interface GeqPreset {
+  version: number;
+  kind: "geq-preset";
+  name: string;
+  createdAt: string;
+  gains: number[];
+}
+
+export interface GeqWriteReport {
+  changed: { band: number; from: number | null; to: number }[];
+  unchanged: number;
+  /** Writes the console did not accept */
+  failed: BatchResult[];
+}
+
+export interface BandDiff {
+  band: number;
+  from: number | null;
+  to: number | null;
+}
+
+// ── Bands ────────────────────────────────────────────────────────────────────
+
+export const GEQ_GROUP = "enVirtualGEQPool";
+
+const PRESET_STORE = "geq-presets";
+
+/** ISO 1/3-octave centre frequencies of the 31 bands, in Hz */
+export const ISO_BANDS = [
+  20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630,
+  800, 1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000,
+  12500, 16000, 20000,
+];
+
+/** Gains closer than this are treated as equal */
+const GAIN_TOLERANCE_DB = 0.05;
+
+/** Band 0 (20 Hz) is enGEQBand1 */
+function bandEndpoint(band: number): string {
+  return `enGEQBand${band + 1}`;
+}
+
+/**
+ * Short band name, e.g. "31.5", "1k", "12.5k".
+ */
+export function formatBand(band: number): string {
+  const hz = ISO_BANDS[band];
+  return hz >= 1000 ? `${hz / 1000}k` : String(hz);
+}
+
+/**
+ * Band index for a frequency such as 1000, "1k", "2.5 kHz" or "31.5".
+ * Accepts anything within a sixth of an octave of an ISO centre.
+ */
+export function bandForFrequency(input: string | number): number {
+  let hz: number;
+  if (typeof input === "number") {
+    hz = input;
+  } else {
+    const text = input.trim();
+    const short = /^(\d*\.?\d+)\s*k$/i.exec(text);
+    const quantity = parseQuantity(text);
+    if (short) hz = parseFloat(short[1]) * 1000;
+    else if (quantity?.unit === "Hz") hz = quantity.value;
+    else hz = Number(text);
+  }
+  if (!Number.isFinite(hz) || hz <= 0) {
+    throw new Error(`"${input}" is not a frequency.`);
+  }
+
+  let best = 0;
+  for (let i = 1; i < ISO_BANDS.length; i++) {
+    if (Math.abs(Math.log2(hz / ISO_BANDS[i])) < Math.abs(Math.log2(hz / ISO_BANDS[best]))) {
+      best = i;
+    }
+  }
+  if (Math.abs(Math.log2(hz / ISO_BANDS[best])) > 1 / 6) {
+    throw new Error(`${input} Hz is not near any of the GEQ's ISO band frequencies.`);
+  }
+  return best;
+}
+
+/**
+ * Check one band gain against the cut/boost range of the band's curve.
+ */
+export function validateBandGain(band: number, gain: number): void {
+  const values = bandCurve(band).points.map((p) => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (!Number.isFinite(gain) || gain < min || gain > max) {
+    throw new Error(
+      `${formatBand(band)} Hz: ${gain} dB is outside ${formatGain(min)} to ${formatGain(max)}.`
+    );
+  }
+}
+
+/**
+ * Check a full curve: one gain per band, each within its band's range.
+ */
+export function validateGains(gains: number[]): void {
+  if (gains.length !== ISO_BANDS.length) {
+    throw new Error(`A GEQ curve needs ${ISO_BANDS.length} gains, got ${gains.length}.`);
+  }
+  gains.forEach((g, band) => validateBandGain(band, g));
+}
+
+// ── Presets ──────────────────────────────────────────────────────────────────
+
+/** Presets that ship with the server; they cannot be overwritten */
+const BUILTIN_PRESETS: Record<string, number[]> = {
+  flat: ISO_BANDS.map(() => 0),
+  // Boosted lows and highs, gently scooped mids
+  smiley: [
+    6, 6, 5.5, 5, 4.5, 4, 3, 2, 1, 0, -1, -1.5, -2, -2.5, -3, -3, -3, -3, -3,
+    -2.5, -2, -1.5, -1, 0, 1, 2, 3, 4, 5, 5.5, 6,
+  ],
+  // Broad dip across the vocal presence range
+  "vocal-cut": [
+    0, 0, 0, 0, 0, 0, 0, 0, 0, 0, -1, -2, -3, -4, -5, -6, -6, -6, -6, -6, -6,
+    -6, -5, -4, -2, -1, 0, 0, 0, 0, 0,
+  ],
+};
+
+function builtinKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+export function listGeqPresets(): { name: string; builtin: boolean }[] {
+  return [
+    ...Object.keys(BUILTIN_PRESETS).map((name) => ({ name, builtin: true })),
+    ...listStore(PRESET_STORE).map((name) => ({ name, builtin: false })),
+  ];
+}
+
+/**
+ * Load a built-in or saved preset by name.
+ */
+export function loadGeqPreset(name: string): GeqPreset {
+  const builtin = BUILTIN_PRESETS[builtinKey(name)];
+  if (builtin) {
+    return {
+      version: GEQ_PRESET_VERSION,
+      kind: "geq-preset",
+      name: builtinKey(name),
+      createdAt: "",
+      gains: [...builtin],
+    };
+  }
+
+  const found = findInStores([PRESET_STORE], name);
+  if (!found) {
+    throw new Error(`No GEQ preset named "${name}". Use list_geq_presets.`);
+  }
+  const preset = readJsonFile<GeqPreset>(found.path);
+  if (preset?.kind !== "geq-preset" || !Array.isArray(preset.gains)) {
+    throw new Error(`${found.path} is not a GEQ preset.`);
+  }
+  if (preset.version !== GEQ_PRESET_VERSION) {
+    throw new Error(
+      `GEQ preset "${name}" has version ${preset.version}, expected ${GEQ_PRESET_VERSION}.`
+    );
+  }
+  validateGains(preset.gains);
+  return preset;
+}
+
+/**
+ * Save a curve as a named preset. Returns the file path.
+ */
+export function saveGeqPreset(name: string, gains: number[]): string {
+  if (BUILTIN_PRESETS[builtinKey(name)]) {
+    throw new Error(`"${name}" is a built-in preset; choose another name.`);
+  }
+  validateGains(gains);
+  const preset: GeqPreset = {
+    version: GEQ_PRESET_VERSION,
+    kind: "geq-preset",
+    name,
+    createdAt: new Date().toISOString(),
+    gains: gains.map((g) => Math.round(g * 10) / 10),
+  };
+  const path = storePath(PRESET_STORE, name);
+  writeJsonFile(path, preset);
+  return path;
+}
+
+// ── Read / Write ─────────────────────────────────────────────────────────────
+
+function bandCurve(band: number) {
+  const curve = getUnitCurve(GEQ_GROUP, bandEndpoint(band));
+  if (!curve) {
+    throw new Error(`${GEQ_GROUP}/${bandEndpoint(band)} has no gain scale.`);
+  }
+  return curve;
+}
+
+/**
+ * Read all band gains of one GEQ in the pool.
+ */
+export async function readGeqCurve(
+  client: MidasOscClient,
+  instance: number,
+  options: BatchOptions = {}
+): Promise<GeqCurve> {
+  const results = await batchGet(
+    client,
+    ISO_BANDS.map((_, band) => ({
+      group: GEQ_GROUP,
+      endpoint: bandEndpoint(band),
+      index: instance,
+    })),
+    options
+  );
+  return results.map((r, band) =>
+    r.status === "ok" && typeof r.value === "number"
+      ? rawToValue(bandCurve(band), r.value)
+      : null
+  );
+}
+
+/**
+ * Write band gains to one GEQ. Bands left undefined keep their setting, and
+ * bands already at the wanted gain are not written.
+ */
+export async function writeGeqCurve(
+  client: MidasOscClient,
+  instance: number,
+  gains: (number | undefined)[],
+  options: BatchOptions = {}
+): Promise<GeqWriteReport> {
+  const current = await readGeqCurve(client, instance, options);
+
+  const report: GeqWriteReport = { changed: [], unchanged: 0, failed: [] };
+  gains.forEach((to, band) => {
+    if (to === undefined) return;
+    const from = current[band];
+    if (from !== null && Math.abs(from - to) < GAIN_TOLERANCE_DB) {
+      report.unchanged++;
+    } else {
+      report.changed.push({ band, from, to });
+    }
+  });
+
+  const results = await batchSet(
+    client,
+    report.changed.map(({ band, to }) => ({
+      group: GEQ_GROUP,
+      endpoint: bandEndpoint(band),
+      index: instance,
+      value: valueToRaw(bandCurve(band), to),
+    })),
+    options
+  );
+  report.failed = results.filter((r) => r.status !== "ok");
+  report.changed = report.changed.filter((_, i) => results[i].status === "ok");
+  return report;
+}
+
+// ── Filters ──────────────────────────────────────────────────────────────────
+
+/** The high-pass, low-pass and notch filters of the output EQ */
+export const GEQ_FILTER_GROUP = "enVirtualMainOuts";
+
+export const GEQ_FILTERS = {
+  hp: "enGEQHPFrequency",
+  lp: "enGEQLPFrequency",
+  low_notch: "enGEQLowNotchFrequency",
+  high_notch: "enGEQHighNotchFrequency",
+} as const;
+
+export type GeqFilter = keyof typeof GEQ_FILTERS;
+
+/**
+ * Read the filter frequencies of one main out.
+ */
+export async function readGeqFilters(
+  client: MidasOscClient,
+  output: number,
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  return batchGet(
+    client,
+    Object.values(GEQ_FILTERS).map((endpoint) => ({
+      group: GEQ_FILTER_GROUP,
+      endpoint,
+      index: output,
+    })),
+    options
+  );
+}
+
+/**
+ * Set filter frequencies on one main out, as raw 0-1 floats or unit strings
+ * where the endpoint's scale is known. Filters left undefined are not sent.
+ */
+export async function writeGeqFilters(
+  client: MidasOscClient,
+  output: number,
+  values: Partial<Record<GeqFilter, number | string>>,
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  const items = (Object.keys(GEQ_FILTERS) as GeqFilter[])
+    .filter((filter) => values[filter] !== undefined)
+    .map((filter) => ({
+      group: GEQ_FILTER_GROUP,
+      endpoint: GEQ_FILTERS[filter],
+      index: output,
+      value: values[filter]!,
+    }));
+  return batchSet(client, items, options);
+}
+
+// ── Compare / Format ─────────────────────────────────────────────────────────
+
+/**
+ * Bands whose gain differs between two curves.
+ */
+export function diffCurves(from: GeqCurve, to: GeqCurve): BandDiff[] {
+  const diffs: BandDiff[] = [];
+  ISO_BANDS.forEach((_, band) => {
+    const a = from[band] ?? null;
+    const b = to[band] ?? null;
+    if (a !== null && b !== null && Math.abs(a - b) < GAIN_TOLERANCE_DB) return;
+    if (a === null && b === null) return;
+    diffs.push({ band, from: a, to: b });
+  });
+  return diffs;
+}
+
+function formatGain(gain: number | null): string {
+  if (gain === null) return "?";
+  const rounded = Math.round(gain * 10) / 10;
+  return `${rounded > 0 ? "+" : ""}${rounded.toFixed(1)} dB`;
+}
+
+/**
+ * Render a curve as one line per band with a bar around the 0 dB line.
+ */
+export function formatCurve(gains: GeqCurve): string {
+  return ISO_BANDS.map((_, band) => {
+    const gain = gains[band] ?? null;
+    const cells = gain === null ? 0 : Math.round(Math.abs(gain));
+    const left = gain !== null && gain < 0 ? "█".repeat(cells) : "";
+    const right = gain !== null && gain > 0 ? "█".repeat(cells) : "";
+    return `${formatBand(band).padStart(5)}  ${formatGain(gain).padStart(8)}  ${left.padStart(GEQ_RANGE_DB)}|${right}`;
+  }).join("\n");
+}
+
+export function formatBandDiff(diffs: BandDiff[]): string {
+  if (diffs.length === 0) return "Curves are identical.";
+  return diffs
+    .map(({ band, from, to }) => {
+      const delta =
+        from !== null && to !== null ? ` (${formatGain(to - from)})` : "";
+      return `${formatBand(band).padStart(5)} Hz: ${formatGain(from)} -> ${formatGain(to)}${delta}`;
+    })
+    .join("\n");
+}
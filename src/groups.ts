@@ -0,0 +1,271 @@
+import { getEndpointInfo, listEndpoints } from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { batchGet, type BatchOptions } from "./batch.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type GroupKind = "mute" | "vca";
+
+interface GroupKindInfo {
+  group: string;
+  /** Prefix of the per-child assignment switches */
+  childPrefix: string;
+  /** Switch that mutes the whole group */
+  muteEndpoint: string;
+  label: string;
+}
+
+export const GROUP_KINDS: Record<GroupKind, GroupKindInfo> = {
+  mute: {
+    group: "enVirtualMuteGroups",
+    childPrefix: "enMuteGroupChild",
+    muteEndpoint: "enMuteGroupMute",
+    label: "mute group",
+  },
+  vca: {
+    group: "enVirtualVCAGroups",
+    childPrefix: "enVCAChild",
+    muteEndpoint: "enVCAMute",
+    label: "VCA group",
+  },
+};
+
+export type MemberKind = "input" | "auxReturn" | "subMix" | "main" | "master";
+
+export type MasterChannel = "L" | "R" | "C";
+
+/**
+ * A channel that can belong to a group. Channels are 0-based like
+ * everywhere else, so input 0 is the enMuteGroupChildInput1 switch.
+ */
+export interface GroupMember {
+  kind: MemberKind;
+  channel: number | MasterChannel;
+}
+
+/** Members by channel type, as taken by the group tools */
+export interface GroupMemberSpec {
+  inputs?: number[];
+  auxReturns?: number[];
+  subMixes?: number[];
+  mains?: number[];
+  masters?: MasterChannel[];
+}
+
+export interface AssignReport {
+  added: GroupMember[];
+  removed: GroupMember[];
+  unchanged: number;
+  failed: { member: GroupMember; error: string }[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const STEMS: Record<Exclude<MemberKind, "master">, string> = {
+  input: "Input",
+  auxReturn: "AuxReturn",
+  subMix: "SubMix",
+  main: "Main",
+};
+
+const KIND_LABELS: Record<MemberKind, string> = {
+  input: "input",
+  auxReturn: "aux return",
+  subMix: "submix",
+  main: "main",
+  master: "master",
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export function formatMember(m: GroupMember): string {
+  return `${KIND_LABELS[m.kind]} ${m.channel}`;
+}
+
+/**
+ * Summarize members compactly, e.g. "input 0-3, 7; master L, R".
+ */
+export function formatMembers(members: GroupMember[]): string {
+  if (members.length === 0) return "(none)";
+
+  const byKind = new Map<MemberKind, (number | MasterChannel)[]>();
+  for (const m of members) {
+    byKind.set(m.kind, [...(byKind.get(m.kind) ?? []), m.channel]);
+  }
+
+  const parts: string[] = [];
+  for (const [kind, channels] of byKind) {
+    const ranges: string[] = [];
+    for (let i = 0; i < channels.length; i++) {
+      const start = channels[i];
+      let end = start;
+      while (typeof end === "number" && channels[i + 1] === end + 1) {
+        end = channels[++i] as number;
+      }
+      ranges.push(start === end ? String(start) : `${start}-${end}`);
+    }
+    parts.push(`${KIND_LABELS[kind]} ${ranges.join(", ")}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Name of the assignment switch for one member, e.g. input 11 in a mute
+ * group is enMuteGroupChildInput12.
+ */
+export function memberEndpoint(kind: GroupKind, member: GroupMember): string {
+  const { group, childPrefix, label } = GROUP_KINDS[kind];
+  const stem =
+    member.kind === "master"
+      ? `Master${member.channel}`
+      : `${STEMS[member.kind]}${(member.channel as number) + 1}`;
+  const endpoint = `${childPrefix}${stem}`;
+  if (!getEndpointInfo(group, endpoint)) {
+    throw new Error(`A ${label} cannot contain ${formatMember(member)}.`);
+  }
+  return endpoint;
+}
+
+/**
+ * Every channel that can be assigned to a group of this kind.
+ */
+export function assignableMembers(kind: GroupKind): GroupMember[] {
+  const { group, childPrefix } = GROUP_KINDS[kind];
+  const re = new RegExp(`^${childPrefix}(?:(Input|AuxReturn|SubMix|Main)(\\d+)|Master([LRC]))$`);
+  const kinds = Object.fromEntries(
+    Object.entries(STEMS).map(([k, stem]) => [stem, k as MemberKind])
+  );
+
+  const members: GroupMember[] = [];
+  for (const { endpoint } of listEndpoints(group) ?? []) {
+    const match = re.exec(endpoint);
+    if (!match) continue;
+    members.push(
+      match[3]
+        ? { kind: "master", channel: match[3] as MasterChannel }
+        : { kind: kinds[match[1]], channel: parseInt(match[2], 10) - 1 }
+    );
+  }
+
+  const order = Object.keys(KIND_LABELS);
+  return members.sort(
+    (a, b) =>
+      order.indexOf(a.kind) - order.indexOf(b.kind) ||
+      String(a.channel).localeCompare(String(b.channel), undefined, { numeric: true })
+  );
+}
+
+export function expandMembers(spec: GroupMemberSpec): GroupMember[] {
+  return [
+    ...(spec.inputs ?? []).map((channel) => ({ kind: "input" as const, channel })),
+    ...(spec.auxReturns ?? []).map((channel) => ({ kind: "auxReturn" as const, channel })),
+    ...(spec.subMixes ?? []).map((channel) => ({ kind: "subMix" as const, channel })),
+    ...(spec.mains ?? []).map((channel) => ({ kind: "main" as const, channel })),
+    ...(spec.masters ?? []).map((channel) => ({ kind: "master" as const, channel })),
+  ];
+}
+
+// ── Membership ───────────────────────────────────────────────────────────────
+
+/**
+ * Read which channels are assigned to a group. Members whose switch did
+ * not answer are listed separately.
+ */
+export async function readMembership(
+  client: MidasOscClient,
+  kind: GroupKind,
+  groupIndex: number,
+  members: GroupMember[] = assignableMembers(kind),
+  options: BatchOptions = {}
+): Promise<{ members: GroupMember[]; unknown: GroupMember[] }> {
+  const { group } = GROUP_KINDS[kind];
+  const results = await batchGet(
+    client,
+    members.map((m) => ({ group, endpoint: memberEndpoint(kind, m), index: groupIndex })),
+    options
+  );
+
+  const assigned: GroupMember[] = [];
+  const unknown: GroupMember[] = [];
+  results.forEach((r, i) => {
+    if (r.status !== "ok" || typeof r.value !== "number") unknown.push(members[i]);
+    else if (r.value !== 0) assigned.push(members[i]);
+  });
+  return { members: assigned, unknown };
+}
+
+/**
+ * Change group membership. The assignment switches toggle, so current
+ * membership is read first and only switches that need to flip are
+ * pressed, once each however often a member is listed. "set" makes the
+ * given members the whole group.
+ */
+export async function assignMembers(
+  client: MidasOscClient,
+  kind: GroupKind,
+  groupIndex: number,
+  members: GroupMember[],
+  mode: "add" | "remove" | "set",
+  options: BatchOptions = {}
+): Promise<AssignReport> {
+  const { group } = GROUP_KINDS[kind];
+  const { paceMs = 10 } = options;
+
+  // Each switch toggles, so a member listed twice must still be pressed once
+  const unique = [...new Map(members.map((m) => [memberEndpoint(kind, m), m])).values()];
+  const wanted = new Set(unique.map((m) => memberEndpoint(kind, m)));
+  const candidates = mode === "set" ? assignableMembers(kind) : unique;
+  const current = await readMembership(client, kind, groupIndex, candidates, options);
+  const isMember = new Set(current.members.map((m) => memberEndpoint(kind, m)));
+  const unknown = new Set(current.unknown.map((m) => memberEndpoint(kind, m)));
+
+  const report: AssignReport = { added: [], removed: [], unchanged: 0, failed: [] };
+  let sent = 0;
+  for (const member of candidates) {
+    const endpoint = memberEndpoint(kind, member);
+    if (unknown.has(endpoint)) {
+      report.failed.push({ member, error: "current state unknown (no response)" });
+      continue;
+    }
+
+    const shouldBe = mode === "remove" ? false : mode === "add" ? true : wanted.has(endpoint);
+    if (isMember.has(endpoint) === shouldBe) {
+      report.unchanged++;
+      continue;
+    }
+
+    try {
+      if (sent++ > 0 && paceMs > 0) await sleep(paceMs);
+      await client.pressSwitch(group, endpoint, groupIndex);
+      (shouldBe ? report.added : report.removed).push(member);
+    } catch (err) {
+      report.failed.push({
+        member,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return report;
+}
+
+/**
+ * Mute or unmute a whole group. Returns false if it was already in that
+ * state.
+ */
+export async function setGroupMute(
+  client: MidasOscClient,
+  kind: GroupKind,
+  groupIndex: number,
+  muted: boolean
+): Promise<boolean> {
+  const { group, muteEndpoint, label } = GROUP_KINDS[kind];
+  const response = await client.getValue(group, muteEndpoint, groupIndex);
+  const value = response?.args[0];
+  if (typeof value !== "number") {
+    throw new Error(`No response reading ${label} ${groupIndex} mute state.`);
+  }
+  if ((value !== 0) === muted) return false;
+
+  await client.pressSwitch(group, muteEndpoint, groupIndex);
+  return true;
+}
@@ -3,22 +3,64 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { registerKnowledgeTools } from "./tools/knowledge.js";
+import { registerAnnotationTools } from "./tools/annotations.js";
 import { registerControlTools } from "./tools/control.js";
+import { registerBatchTools } from "./tools/batch.js";
+import { registerSnapshotTools } from "./tools/snapshot.js";
+import { registerShowTools } from "./tools/show.js";
+import { registerDiffTools } from "./tools/diff.js";
+import { registerLabelTools } from "./tools/labels.js";
+import { registerOverviewTools } from "./tools/overview.js";
+import { registerGroupTools } from "./tools/groups.js";
+import { registerGeqTools } from "./tools/geq.js";
+import { registerFxTools } from "./tools/fx.js";
+import { registerStageboxTools } from "./tools/stagebox.js";
+import { registerMacroTools } from "./tools/macros.js";
+import { registerMonitoringTools } from "./tools/monitoring.js";
+import { registerSafetyTools } from "./tools/safety.js";
+import { registerHistoryTools } from "./tools/history.js";
+import { registerRehearsalTools } from "./tools/rehearsal.js";
 
 // ── Server Setup ─────────────────────────────────────────────────────────────
 
-const server = new McpServer({
-  name: "midas-pro",
-  version: "0.1.0",
-});
+const server = new McpServer(
+  {
+    name: "midas-pro",
+    version: "0.1.0",
+  },
+  {
+    // Alerts are pushed to the client as log notifications
+    capabilities: { logging: {} },
+  }
+);
 
 // ── Register Tools ───────────────────────────────────────────────────────────
 
 // Phase 1: Knowledge base - browse and search the OSC command database
 registerKnowledgeTools(server);
+registerAnnotationTools(server);
 
 // Phase 2: Live control - connect to and control a real console
 registerControlTools(server);
+registerSafetyTools(server);
+registerHistoryTools(server);
+registerRehearsalTools(server);
+
+// Phase 3: High-level operations - batch reads/writes across channels
+registerBatchTools(server);
+registerSnapshotTools(server);
+registerShowTools(server);
+registerDiffTools(server);
+registerLabelTools(server);
+registerOverviewTools(server);
+registerGroupTools(server);
+registerGeqTools(server);
+registerFxTools(server);
+registerStageboxTools(server);
+registerMacroTools(server);
+
+// Phase 4: Monitoring - meters, level statistics and alerts
+registerMonitoringTools(server);
 
 // ── Auto-connect if configured via MCPB user_config ─────────────────────────
 
@@ -31,7 +73,8 @@ if (configIp && configIp.length > 0) {
   const port = configPort ? parseInt(configPort, 10) : 10023;
   try {
     await midasClient.connect(configIp, port);
-    console.error(`[midas-pro] Auto-connected to ${configIp}:${port}`);
+    const mode = midasClient.isDryRun ? " (dry run)" : "";
+    console.error(`[midas-pro] Auto-connected to ${configIp}:${port}${mode}`);
   } catch (err) {
     console.error(
       `[midas-pro] Auto-connect failed: ${err instanceof Error ? err.message : err}`
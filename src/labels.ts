@@ -0,0 +1,299 @@
+import { getEndpointInfo, getGroupNames } from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import {
+  batchGet,
+  batchSet,
+  type BatchOptions,
+  type BatchResult,
+} from "./batch.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface LabelEntry {
+  group: string;
+  index: number;
+  name: string;
+  colour?: string;
+}
+
+export interface LabelReport {
+  changed: { group: string; index: number; from: string | null; to: string }[];
+  unchanged: number;
+  /** Writes the console did not accept */
+  failed: BatchResult[];
+  /** Entries given a colour; the endpoint database has no colour endpoints */
+  coloursIgnored: number;
+}
+
+export interface InvalidLabel {
+  line: number;
+  text: string;
+  error: string;
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+const LABEL_ENDPOINT = "enPathname";
+
+/** Longest label accepted; longer names are cut off on the console LCDs */
+export const MAX_LABEL_LENGTH = 16;
+
+/** Printable ASCII only */
+const LABEL_CHARS = /^[\x20-\x7E]*$/;
+
+/** Short names accepted for label groups in tool input and CSV files */
+const GROUP_ALIASES: Record<string, string> = {
+  input: "enVirtualMicInputs",
+  mic: "enVirtualMicInputs",
+  aux: "enVirtualAuxReturns",
+  auxreturn: "enVirtualAuxReturns",
+  monitor: "enVirtualMonitors",
+  submix: "enVirtualSubMixes",
+  main: "enVirtualMainOuts",
+  master: "enVirtualMasters",
+  vca: "enVirtualVCAGroups",
+  mutegroup: "enVirtualMuteGroups",
+  fx: "enVirtualInternalFX",
+};
+
+/**
+ * Resolve a group name or alias ("input", "aux", ...) to a group that has
+ * channel labels.
+ */
+export function resolveLabelGroup(name: string): string {
+  const lower = name.trim().toLowerCase();
+  const alias = lower.replace(/[\s_-]+/g, "").replace(/s$/, "");
+  const group =
+    GROUP_ALIASES[alias] ?? getGroupNames().find((g) => g.toLowerCase() === lower);
+  if (!group || !getEndpointInfo(group, LABEL_ENDPOINT)) {
+    throw new Error(`"${name}" is not a group with channel labels.`);
+  }
+  return group;
+}
+
+/**
+ * Check a label against the console's limits. Returns an error message, or
+ * null if the label is fine.
+ */
+export function validateLabel(name: string): string | null {
+  if (name.length > MAX_LABEL_LENGTH) {
+    return `"${name}" is longer than ${MAX_LABEL_LENGTH} characters`;
+  }
+  if (!LABEL_CHARS.test(name)) {
+    return `"${name}" contains characters other than printable ASCII`;
+  }
+  return null;
+}
+
+/**
+ * Index to send for a label. Groups with a single label (e.g. the monitor
+ * section) are unindexed and only accept index 0.
+ */
+function labelIndex(group: string, index: number): number | undefined {
+  if (getEndpointInfo(group, LABEL_ENDPOINT)?.multiPath) return index;
+  if (index !== 0) {
+    throw new Error(`${group} has a single label; use index 0`);
+  }
+  return undefined;
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Split one CSV line, honouring double-quoted fields.
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse a label list. Columns are index,name[,colour] or
+ * group,index,name[,colour]; a header row naming the columns is optional.
+ * Indices are 0-based.
+ */
+export function parseLabelCsv(
+  text: string,
+  defaultGroup: string
+): { entries: LabelEntry[]; invalid: InvalidLabel[] } {
+  const entries: LabelEntry[] = [];
+  const invalid: InvalidLabel[] = [];
+  let columns: string[] | null = null;
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === "" || line.trim().startsWith("#")) return;
+    const fields = splitCsvLine(line);
+
+    if (!columns && fields.some((f) => /^(index|channel|name|label)$/i.test(f))) {
+      columns = fields.map((f) => f.toLowerCase());
+      return;
+    }
+
+    const cols: string[] =
+      columns ??
+      (fields.length >= 3 && !/^\d+$/.test(fields[0])
+        ? ["group", "index", "name", "colour"]
+        : ["index", "name", "colour"]);
+    const get = (...names: string[]) => {
+      const at = cols.findIndex((c) => names.includes(c));
+      return at >= 0 ? fields[at] : undefined;
+    };
+
+    try {
+      const rawIndex = get("index", "channel") ?? "";
+      if (!/^\d+$/.test(rawIndex)) {
+        throw new Error(`Invalid channel index "${rawIndex}"`);
+      }
+      const name = get("name", "label") ?? "";
+      const error = validateLabel(name);
+      if (error) throw new Error(error);
+
+      const groupName = get("group");
+      const group = groupName ? resolveLabelGroup(groupName) : defaultGroup;
+      const index = parseInt(rawIndex, 10);
+      labelIndex(group, index);
+      entries.push({
+        group,
+        index,
+        name,
+        colour: get("colour", "color") || undefined,
+      });
+    } catch (err) {
+      invalid.push({
+        line: i + 1,
+        text: line,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+
+  return { entries, invalid };
+}
+
+/**
+ * Render labels as CSV with a group,index,name header.
+ */
+export function labelsToCsv(entries: LabelEntry[]): string {
+  const lines = ["group,index,name"];
+  for (const e of entries) {
+    lines.push(`${e.group},${e.index},${csvField(e.name)}`);
+  }
+  return lines.join("\n");
+}
+
+// ── Read / Write ─────────────────────────────────────────────────────────────
+
+/**
+ * Read the current labels of some channels. Channels that did not answer
+ * are left out.
+ */
+export async function readLabels(
+  client: MidasOscClient,
+  group: string,
+  indices: number[],
+  options: BatchOptions = {}
+): Promise<{ entries: LabelEntry[]; noResponse: number[] }> {
+  const results = await batchGet(
+    client,
+    indices.map((index) => ({
+      group,
+      endpoint: LABEL_ENDPOINT,
+      index: labelIndex(group, index),
+    })),
+    options
+  );
+
+  const entries: LabelEntry[] = [];
+  const noResponse: number[] = [];
+  results.forEach((r, i) => {
+    if (r.status === "ok") {
+      entries.push({ group, index: indices[i], name: String(r.value ?? "") });
+    } else {
+      noResponse.push(indices[i]);
+    }
+  });
+  return { entries, noResponse };
+}
+
+/**
+ * Write labels, skipping channels that already have the wanted name.
+ */
+export async function applyLabels(
+  client: MidasOscClient,
+  entries: LabelEntry[],
+  options: BatchOptions = {}
+): Promise<LabelReport> {
+  for (const e of entries) {
+    const error = validateLabel(e.name);
+    if (error) throw new Error(`${e.group}/${e.index}: ${error}`);
+  }
+
+  const current = await batchGet(
+    client,
+    entries.map(({ group, index }) => ({
+      group,
+      endpoint: LABEL_ENDPOINT,
+      index: labelIndex(group, index),
+    })),
+    options
+  );
+
+  const report: LabelReport = {
+    changed: [],
+    unchanged: 0,
+    failed: [],
+    coloursIgnored: entries.filter((e) => e.colour).length,
+  };
+  const writes: LabelEntry[] = [];
+  entries.forEach((entry, i) => {
+    const r = current[i];
+    const from = r.status === "ok" ? String(r.value ?? "") : null;
+    if (from === entry.name) {
+      report.unchanged++;
+    } else {
+      writes.push(entry);
+      report.changed.push({ group: entry.group, index: entry.index, from, to: entry.name });
+    }
+  });
+
+  const results = await batchSet(
+    client,
+    writes.map(({ group, index, name }) => ({
+      group,
+      endpoint: LABEL_ENDPOINT,
+      index: labelIndex(group, index),
+      value: name,
+    })),
+    options
+  );
+  report.failed = results.filter((r) => r.status !== "ok");
+  report.changed = report.changed.filter((_, i) => results[i].status === "ok");
+  return report;
+}
@@ -0,0 +1,293 @@
+import { argumentTypeOf, checkIndex, getEndpointInfo } from "./endpoints.js";
+import { formatRaw, resolveValue } from "./units.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { safetyEngine } from "./safety.js";
+import { findInStores, listStore, readJsonFile, storePath, writeJsonFile } from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export const MACRO_VERSION = 1;
+
+const MACRO_STORE = "macros";
+
+/** Interval between writes while fading */
+const FADE_STEP_MS = 50;
+
+/** One write in a macro, as given by the user */
+export interface MacroStepInput {
+  group: string;
+  endpoint: string;
+  index?: number;
+  /** Raw value, a value with a unit ("-6 dB"), or "on"/"off" for switches */
+  value: number | string;
+  delayMs?: number;
+  fadeMs?: number;
+}
+
+/**
+ * One write in a saved macro, checked and resolved to its wire value when
+ * the macro was saved.
+ */
+export interface MacroStep {
+  group: string;
+  endpoint: string;
+  index?: number;
+  /** Raw value; for toggle switches the wanted state, 0 or 1 */
+  value: number | string;
+  /** Wait before this step, counted from the start of the previous one (default: 0) */
+  delayMs?: number;
+  /** Move there gradually from the current value over this long; float endpoints only */
+  fadeMs?: number;
+  /** Toggle switch: its state is read and it is pressed only if it differs */
+  toggle?: true;
+}
+
+/**
+ * Macro file format (~/.midas-pro/macros/<name>.json).
+ */
+export interface Macro {
+  version: number;
+  kind: "macro";
+  name: string;
+  description?: string;
+  createdAt: string;
+  steps: MacroStep[];
+}
+
+export interface MacroStepResult {
+  step: MacroStep;
+  status: "ok" | "unchanged" | "failed";
+  error?: string;
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+function switchState(value: number | string): number | null {
+  if (value === 0 || value === 1) return value;
+  if (typeof value !== "string") return null;
+  const word = value.trim().toLowerCase();
+  if (["on", "true", "1"].includes(word)) return 1;
+  if (["off", "false", "0"].includes(word)) return 0;
+  return null;
+}
+
+/**
+ * Check one step against the endpoint database and resolve its value to
+ * what goes on the wire. Throws with the step number on any problem.
+ */
+export function validateMacroStep(input: MacroStepInput, position: number): MacroStep {
+  const where = `Step ${position + 1} (${input.group}/${input.endpoint})`;
+  const spec = getEndpointInfo(input.group, input.endpoint);
+  if (!spec) {
+    throw new Error(`${where}: no such endpoint.`);
+  }
+  const indexError = checkIndex(input.group, input.endpoint, input.index);
+  if (indexError) {
+    throw new Error(`${where}: ${indexError}`);
+  }
+  for (const [field, ms] of [
+    ["delayMs", input.delayMs],
+    ["fadeMs", input.fadeMs],
+  ] as const) {
+    if (ms !== undefined && !(Number.isInteger(ms) && ms >= 0)) {
+      throw new Error(`${where}: ${field} must be a whole number of ms, 0 or more.`);
+    }
+  }
+
+  const step: MacroStep = {
+    group: input.group,
+    endpoint: input.endpoint,
+    index: input.index,
+    value: input.value,
+    delayMs: input.delayMs || undefined,
+    fadeMs: input.fadeMs || undefined,
+  };
+
+  if (spec.type === "enPPCSwitchMessage") {
+    const state = switchState(input.value);
+    if (state === null) {
+      throw new Error(`${where}: switches take 0/1 or "on"/"off", not ${JSON.stringify(input.value)}.`);
+    }
+    step.value = state;
+    if (!spec.isAbsolute) {
+      step.toggle = true;
+    } else if (argumentTypeOf(spec, input.endpoint) === null) {
+      throw new Error(`${where}: endpoint is read-only and cannot be set.`);
+    }
+  } else {
+    const argumentType = argumentTypeOf(spec, input.endpoint);
+    if (argumentType === null) {
+      throw new Error(`${where}: endpoint is read-only and cannot be set.`);
+    }
+    step.value = resolveValue(input.group, input.endpoint, input.value).raw;
+    if (argumentType !== "string" && typeof step.value !== "number") {
+      throw new Error(`${where}: expected a number, got ${JSON.stringify(input.value)}.`);
+    }
+    if (argumentType === "float" && ((step.value as number) < 0 || (step.value as number) > 1)) {
+      throw new Error(`${where}: raw value ${step.value} is outside 0-1.`);
+    }
+  }
+
+  if (step.fadeMs !== undefined && argumentTypeOf(spec, input.endpoint) !== "float") {
+    throw new Error(`${where}: only float parameters such as faders can fade.`);
+  }
+  return step;
+}
+
+// ── Store ────────────────────────────────────────────────────────────────────
+
+/**
+ * Validate every step and save the macro. Returns the file path.
+ */
+export function saveMacro(
+  name: string,
+  steps: MacroStepInput[],
+  description?: string,
+  overwrite = false
+): string {
+  if (steps.length === 0) {
+    throw new Error("A macro needs at least one step.");
+  }
+  const path = storePath(MACRO_STORE, name);
+  if (!overwrite && findInStores([MACRO_STORE], name)) {
+    throw new Error(`Macro "${name}" already exists. Pass overwrite: true to replace it.`);
+  }
+  const macro: Macro = {
+    version: MACRO_VERSION,
+    kind: "macro",
+    name,
+    description,
+    createdAt: new Date().toISOString(),
+    steps: steps.map(validateMacroStep),
+  };
+  writeJsonFile(path, macro);
+  return path;
+}
+
+export function loadMacro(name: string): Macro {
+  const found = findInStores([MACRO_STORE], name);
+  if (!found) {
+    throw new Error(`No macro named "${name}". Use list_macros.`);
+  }
+  const macro = readJsonFile<Macro>(found.path);
+  if (macro?.kind !== "macro" || !Array.isArray(macro.steps)) {
+    throw new Error(`${found.path} is not a macro.`);
+  }
+  if (macro.version !== MACRO_VERSION) {
+    throw new Error(`Macro "${name}" has version ${macro.version}, expected ${MACRO_VERSION}.`);
+  }
+  return macro;
+}
+
+export function listMacros(): Macro[] {
+  return listStore(MACRO_STORE).map(loadMacro);
+}
+
+// ── Run ──────────────────────────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function currentValue(client: MidasOscClient, step: MacroStep): Promise<unknown> {
+  const cached = client.getCached(step.group, step.endpoint, step.index);
+  if (cached) return cached.args[0];
+  return (await client.getValue(step.group, step.endpoint, step.index))?.args[0];
+}
+
+/**
+ * Move a float parameter to the step's value in FADE_STEP_MS increments.
+ * The safety policy checks the fade once, from the current to the end
+ * value, rather than each increment.
+ */
+async function fade(client: MidasOscClient, step: MacroStep): Promise<void> {
+  const from = await currentValue(client, step);
+  const to = step.value as number;
+  if (typeof from !== "number") {
+    throw new Error("no current value to fade from");
+  }
+  const target = client.prepareWrite(step.group, step.endpoint, to, step.index);
+  const count = Math.max(1, Math.round(step.fadeMs! / FADE_STEP_MS));
+  await safetyEngine.approveFade(target, async () => {
+    for (let i = 1; i <= count; i++) {
+      await sleep(step.fadeMs! / count);
+      await client.setValue(step.group, step.endpoint, from + ((to - from) * i) / count, step.index);
+    }
+  });
+}
+
+async function runStep(client: MidasOscClient, step: MacroStep): Promise<MacroStepResult> {
+  try {
+    if (step.toggle) {
+      // Presses do not update the cache, so always ask the console
+      const response = await client.getValue(step.group, step.endpoint, step.index);
+      const state = response?.args[0];
+      if (typeof state !== "number") {
+        throw new Error("no response reading the switch state");
+      }
+      if ((state !== 0 ? 1 : 0) === step.value) return { step, status: "unchanged" };
+      await client.pressSwitch(step.group, step.endpoint, step.index);
+    } else if (step.fadeMs) {
+      await fade(client, step);
+    } else {
+      await client.setValue(step.group, step.endpoint, step.value, step.index);
+    }
+    return { step, status: "ok" };
+  } catch (err) {
+    return { step, status: "failed", error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Run a macro's steps in order. Each step waits its delay from the start of
+ * the one before; fades run on while later steps start, so several faders
+ * can move together. Failed steps are reported and do not stop the rest.
+ * Resolves when every step, fades included, has finished.
+ */
+export async function runMacro(client: MidasOscClient, macro: Macro): Promise<MacroStepResult[]> {
+  const running: Promise<MacroStepResult>[] = [];
+  for (const step of macro.steps) {
+    if (step.delayMs) await sleep(step.delayMs);
+    const result = runStep(client, step);
+    // Let plain writes land in order; only fades overlap
+    if (!step.fadeMs) await result;
+    running.push(result);
+  }
+  return Promise.all(running);
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+export function describeMacroStep(step: MacroStep): string {
+  const target = `${step.group}/${step.endpoint}${step.index !== undefined ? `/${step.index}` : ""}`;
+  const value = step.toggle
+    ? step.value
+      ? "on"
+      : "off"
+    : (formatRaw(step.group, step.endpoint, step.value) ?? JSON.stringify(step.value));
+  const timing = [
+    step.delayMs ? `after ${step.delayMs} ms` : "",
+    step.fadeMs ? `fade ${step.fadeMs} ms` : "",
+  ].filter(Boolean);
+  return `${target} = ${value}${timing.length ? ` (${timing.join(", ")})` : ""}`;
+}
+
+export function formatMacro(macro: Macro): string {
+  const lines = [
+    `${macro.name}: ${macro.steps.length} step${macro.steps.length === 1 ? "" : "s"}${macro.description ? ` - ${macro.description}` : ""}`,
+  ];
+  macro.steps.forEach((step, i) => lines.push(`  ${i + 1}. ${describeMacroStep(step)}`));
+  return lines.join("\n");
+}
+
+export function formatMacroResults(macro: Macro, results: MacroStepResult[]): string {
+  const failed = results.filter((r) => r.status === "failed").length;
+  const lines = [
+    `Ran macro "${macro.name}": ${results.length - failed} of ${results.length} steps done`,
+  ];
+  results.forEach((r, i) => {
+    const status = r.status === "ok" ? "OK" : r.status === "unchanged" ? "ALREADY" : "FAILED";
+    lines.push(`  ${i + 1}. ${status.padEnd(8)} ${describeMacroStep(r.step)}${r.error ? `: ${r.error}` : ""}`);
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,190 @@
+import { buildOscPath } from "./endpoints.js";
+import { getUnitCurve, rawToValue, METER_FLOOR_DBFS } from "./units.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { DEFAULT_PACE_MS, type BatchItem } from "./batch.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** Per-channel meters on the enVirtual* channel groups */
+export const CHANNEL_METERS = [
+  "enMeter",
+  "enCompGRMeter",
+  "enCompDetMeter",
+  "enInsertSendMeter",
+];
+
+/**
+ * Statistics for one meter over the monitoring window. Levels are in dB
+ * (dBFS for signal meters, dB of reduction for GR meters); null when the
+ * console sent nothing.
+ */
+export interface MeterReading {
+  group: string;
+  endpoint: string;
+  index?: number;
+  samples: number;
+  current: number | null;
+  /** Highest level seen in the window */
+  peak: number | null;
+  /** RMS of the samples in the window */
+  rms: number | null;
+}
+
+export interface MeterFrame {
+  takenAt: string;
+  windowMs: number;
+  /** Queries per second made for each meter, after pacing */
+  rateHz: number;
+  readings: MeterReading[];
+}
+
+export interface MeterOptions {
+  /**
+   * Queries per second for each meter (default: 10). Lowered when there are
+   * too many meters to query at the batch pace.
+   */
+  rateHz?: number;
+  /** How long to watch the meters (default: 1000) */
+  durationMs?: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const DEFAULT_RATE_HZ = 10;
+const DEFAULT_DURATION_MS = 1000;
+
+let latestFrame: MeterFrame | null = null;
+
+/**
+ * The most recent frame measured by monitorMeters, if any.
+ */
+export function getLatestMeterFrame(): MeterFrame | null {
+  return latestFrame;
+}
+
+/**
+ * Convert a raw meter float to dB using the endpoint's curve.
+ */
+export function meterDb(group: string, endpoint: string, raw: number): number {
+  const curve = getUnitCurve(group, endpoint);
+  if (!curve) return METER_FLOOR_DBFS + raw * -METER_FLOOR_DBFS;
+  return rawToValue(curve, raw);
+}
+
+function summarize(item: BatchItem, levels: number[]): MeterReading {
+  if (levels.length === 0) {
+    return { ...item, samples: 0, current: null, peak: null, rms: null };
+  }
+  const meanPower =
+    levels.reduce((sum, db) => sum + Math.pow(10, db / 10), 0) / levels.length;
+  return {
+    ...item,
+    samples: levels.length,
+    current: levels[levels.length - 1],
+    peak: Math.max(...levels),
+    rms: 10 * Math.log10(meanPower),
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// ── Monitoring ───────────────────────────────────────────────────────────────
+
+/**
+ * Watch a set of meters for a while, polling each at the given rate and
+ * picking up any values the console pushes in between. Queries go out one
+ * at a time at the batch pace, so the console never sees more than
+ * batchGet would send; with many meters each is polled less often than
+ * asked. Returns peak-hold and RMS statistics over the window; the result
+ * also becomes the latest meter frame.
+ */
+export async function monitorMeters(
+  client: MidasOscClient,
+  items: BatchItem[],
+  options: MeterOptions = {}
+): Promise<MeterFrame> {
+  const { rateHz: wantedHz = DEFAULT_RATE_HZ, durationMs = DEFAULT_DURATION_MS } = options;
+  // A round of queries takes items × pace, so that caps the rate
+  const periodMs = Math.max(1000 / wantedHz, items.length * DEFAULT_PACE_MS);
+  const rateHz = Math.round((1000 / periodMs) * 10) / 10;
+
+  const levels = new Map<string, number[]>();
+  const byAddress = new Map<string, BatchItem>();
+  for (const item of items) {
+    const address = buildOscPath(item.group, item.endpoint, item.index);
+    if (!address) {
+      throw new Error(`Endpoint "${item.endpoint}" not found in group "${item.group}".`);
+    }
+    byAddress.set(address, item);
+    levels.set(address, []);
+  }
+
+  const unsubscribe = client.subscribe("/enPPCMeterMessage/**", (entry) => {
+    const item = byAddress.get(entry.address);
+    const raw = entry.args[0];
+    if (item && typeof raw === "number") {
+      levels.get(entry.address)!.push(meterDb(item.group, item.endpoint, raw));
+    }
+  });
+
+  const started = Date.now();
+  try {
+    let pending: Promise<unknown>[] = [];
+    while (Date.now() - started < durationMs) {
+      const roundStarted = Date.now();
+      pending = [];
+      for (const [i, item] of items.entries()) {
+        if (i > 0) await sleep(DEFAULT_PACE_MS);
+        // Replies land in the state cache and reach us via the subscription
+        pending.push(
+          client
+            .getValue(item.group, item.endpoint, item.index, {
+              timeoutMs: periodMs,
+              retries: 0,
+            })
+            .catch(() => {})
+        );
+      }
+      await sleep(Math.max(0, periodMs - (Date.now() - roundStarted)));
+    }
+    // A slow round can end before its last replies arrive
+    await Promise.all(pending);
+  } finally {
+    unsubscribe();
+  }
+
+  const frame: MeterFrame = {
+    takenAt: new Date().toISOString(),
+    windowMs: Date.now() - started,
+    rateHz,
+    readings: [...byAddress].map(([address, item]) =>
+      summarize(item, levels.get(address)!)
+    ),
+  };
+  latestFrame = frame;
+  return frame;
+}
+
+function formatDb(db: number | null): string {
+  if (db === null) return "—";
+  if (db <= METER_FLOOR_DBFS) return "-inf";
+  return db.toFixed(1);
+}
+
+/**
+ * Render a meter frame as a compact table.
+ */
+export function formatMeterFrame(frame: MeterFrame): string {
+  const lines = [
+    `Meters over ${frame.windowMs} ms at ${frame.rateHz} Hz (dB)`,
+    `  ${"Meter".padEnd(28)} ${"Now".padStart(7)} ${"Peak".padStart(7)} ${"RMS".padStart(7)} ${"n".padStart(4)}`,
+    `  ${"─".repeat(57)}`,
+  ];
+  for (const r of frame.readings) {
+    const target = `${r.group.replace(/^enVirtual/, "")}/${r.endpoint}${r.index !== undefined ? `/${r.index}` : ""}`;
+    lines.push(
+      `  ${target.padEnd(28)} ${formatDb(r.current).padStart(7)} ${formatDb(r.peak).padStart(7)} ${formatDb(r.rms).padStart(7)} ${String(r.samples).padStart(4)}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -1,5 +1,16 @@
 import { Client, Message, Server } from "node-osc";
-import { getEndpointInfo, buildOscPath, type EndpointSpec } from "./endpoints.js";
+import {
+  getEndpointInfo,
+  buildOscPath,
+  argumentTypeOf,
+  checkIndex,
+  type EndpointSpec,
+} from "./endpoints.js";
+import {
+  ConsoleStateCache,
+  type StateEntry,
+  type StateListener,
+} from "./state-cache.js";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -7,6 +18,38 @@ export interface ConnectionConfig {
   ip: string;
   port: number;
   listenPort: number;
+  /** Writes are recorded instead of sent */
+  dryRun: boolean;
+}
+
+export interface ConnectOptions {
+  /** Record writes instead of sending them (default: MIDAS_DRY_RUN) */
+  dryRun?: boolean;
+}
+
+/**
+ * A write encoded exactly as it would go on the wire, kept instead of sent
+ * in dry-run mode.
+ */
+export interface RecordedMessage {
+  /** ISO timestamp */
+  at: string;
+  path: string;
+  group: string;
+  endpoint: string;
+  index?: number;
+  /** OSC type tag of the argument */
+  type: "f" | "i" | "s";
+  /** The value after clamping and rounding */
+  value: number | string;
+  /** Flips a toggle switch (pressSwitch, or any write to a toggle) */
+  press?: true;
+  /**
+   * For a press, the state the switch was pressed into, so a replay only
+   * presses it if the console is not already there. Absent if the state
+   * could not be read.
+   */
+  state?: 0 | 1;
 }
 
 export interface OscResponse {
@@ -15,12 +58,57 @@ export interface OscResponse {
   timestamp: number;
 }
 
-// ── Dangerous commands that require explicit confirmation ─────────────────────
+export interface RequestDefaults {
+  /** How long to wait for each attempt (default: 2000) */
+  timeoutMs: number;
+  /** Extra attempts after a timeout, to ride out lost UDP packets (default: 1) */
+  retries: number;
+}
+
+export interface GetValueOptions extends Partial<RequestDefaults> {
+  /**
+   * Answer from the state cache without a round trip if the cached value is
+   * at most this old. Omit to always query the console.
+   */
+  maxAgeMs?: number;
+  /** Abort the query; the promise rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+interface Waiter {
+  resolve: (entry: StateEntry | null) => void;
+  reject: (err: unknown) => void;
+}
+
+/** A write about to be sent, as seen by the write guard */
+export interface PendingWrite {
+  group: string;
+  endpoint: string;
+  index?: number;
+  path: string;
+  /** The value as it will be sent, after clamping */
+  value: number | string;
+  spec: EndpointSpec;
+}
 
-const DANGEROUS_ENDPOINTS = new Set([
-  "enRebootConsole",
-  "enResetGlobalsToDefault",
-]);
+/** Checks each write before it is sent; throws (rejects) to stop it */
+export type WriteGuard = (write: PendingWrite) => Promise<void>;
+
+/**
+ * Records writes (the audit log). `capture` runs before the write is sent
+ * and returns the value being replaced; `record` runs once it is sent.
+ */
+export interface WriteJournal {
+  capture(write: PendingWrite): Promise<unknown>;
+  record(write: PendingWrite, previous: unknown): void;
+}
+
+/** node-osc names argument types in full; the wire uses one-letter tags */
+const TYPE_TAGS: Record<string, RecordedMessage["type"]> = {
+  float: "f",
+  integer: "i",
+  string: "s",
+};
 
 // ── OSC Client ───────────────────────────────────────────────────────────────
 
@@ -28,7 +116,18 @@ export class MidasOscClient {
   private client: Client | null = null;
   private listener: Server | null = null;
   private config: ConnectionConfig | null = null;
-  private responseBuffer: Map<string, OscResponse> = new Map();
+  private pending: Map<string, Set<Waiter>> = new Map();
+  private requestDefaults: RequestDefaults;
+  private writeGuard: WriteGuard | null = null;
+  private writeJournal: WriteJournal | null = null;
+  private recording: RecordedMessage[] = [];
+
+  /** Mirror of console state, updated by every incoming message */
+  readonly state = new ConsoleStateCache();
+
+  constructor(defaults: Partial<RequestDefaults> = {}) {
+    this.requestDefaults = { timeoutMs: 2000, retries: 1, ...defaults };
+  }
 
   get isConnected(): boolean {
     return this.client !== null;
@@ -38,33 +137,62 @@ export class MidasOscClient {
     return this.config;
   }
 
+  get isDryRun(): boolean {
+    return this.config?.dryRun ?? false;
+  }
+
+  /** Writes recorded in dry-run mode since connecting, oldest first */
+  get recorded(): readonly RecordedMessage[] {
+    return this.recording;
+  }
+
   /**
-   * Connect to a Midas console.
+   * Connect to a Midas console. In dry-run mode queries still go out, so
+   * previews start from the console's real state, but writes are only
+   * recorded.
    */
   async connect(
     ip: string,
     port = 10023,
-    listenPort = 10024
+    listenPort = 10024,
+    options: ConnectOptions = {}
   ): Promise<void> {
     if (this.client) {
       await this.disconnect();
     }
 
-    this.config = { ip, port, listenPort };
+    const dryRun = options.dryRun ?? /^(1|true|yes)$/i.test(process.env.MIDAS_DRY_RUN ?? "");
+    this.config = { ip, port, listenPort, dryRun };
+    this.recording = [];
     this.client = new Client(ip, port);
 
     // Start a listener for responses (meter reads, value queries)
     this.listener = new Server(listenPort, "0.0.0.0");
     this.listener.on("message", (msg: unknown[]) => {
       const [address, ...args] = msg;
-      this.responseBuffer.set(address as string, {
-        address: address as string,
-        args,
-        timestamp: Date.now(),
-      });
+      const entry = this.state.update(address as string, args);
+      if (entry) {
+        this.settle(entry.address, (w) => w.resolve(entry));
+      }
     });
   }
 
+  /**
+   * Change the timeout and retry defaults used by getValue.
+   */
+  configureRequests(defaults: Partial<RequestDefaults>): void {
+    this.requestDefaults = { ...this.requestDefaults, ...defaults };
+  }
+
+  /**
+   * Hand over the dry-run recording and start a new one.
+   */
+  takeRecording(): RecordedMessage[] {
+    const recorded = this.recording;
+    this.recording = [];
+    return recorded;
+  }
+
   /**
    * Disconnect from the console.
    */
@@ -78,26 +206,67 @@ export class MidasOscClient {
       this.listener = null;
     }
     this.config = null;
-    this.responseBuffer.clear();
+    for (const address of [...this.pending.keys()]) {
+      this.settle(address, (w) => w.reject(new Error("Disconnected")));
+    }
+    this.state.clear();
+  }
+
+  /**
+   * Listen for changes to console parameters whose OSC path matches a glob,
+   * including changes made at the desk. Returns an unsubscribe function.
+   */
+  subscribe(pattern: string, listener: StateListener): () => void {
+    return this.state.subscribe(pattern, listener);
+  }
+
+  /**
+   * Get the last known value of a parameter without querying the console.
+   */
+  getCached(
+    group: string,
+    endpoint: string,
+    index?: number,
+    maxAgeMs?: number
+  ): StateEntry | null {
+    return this.state.get(group, endpoint, index, maxAgeMs);
+  }
+
+  /**
+   * Install the check run on every write before it is sent (the safety
+   * policy). Pass null to remove it.
+   */
+  setWriteGuard(guard: WriteGuard | null): void {
+    this.writeGuard = guard;
   }
 
   /**
-   * Check if an endpoint is dangerous (requires confirmation).
+   * Install the journal every sent write is recorded in. Pass null to
+   * remove it.
    */
-  isDangerous(endpoint: string): boolean {
-    return DANGEROUS_ENDPOINTS.has(endpoint);
+  setWriteJournal(journal: WriteJournal | null): void {
+    this.writeJournal = journal;
   }
 
   /**
    * Send an OSC message to get the current value of a parameter.
-   * Returns the cached response if available within timeout.
+   * Answers from the state cache when a fresh enough entry exists, and
+   * re-sends the query on timeout up to `retries` times. Returns null if the
+   * console never answers.
    */
   async getValue(
     group: string,
     endpoint: string,
     index?: number,
-    timeoutMs = 2000
+    options: GetValueOptions = {}
   ): Promise<OscResponse | null> {
+    const {
+      timeoutMs = this.requestDefaults.timeoutMs,
+      retries = this.requestDefaults.retries,
+      maxAgeMs,
+      signal,
+    } = options;
+
     if (!this.client) {
       throw new Error("Not connected. Use the connect tool first.");
     }
@@ -107,25 +276,91 @@ export class MidasOscClient {
       throw new Error(`Invalid endpoint: ${group}/${endpoint}`);
     }
 
-    // Clear any stale response for this path
-    this.responseBuffer.delete(path);
+    const indexError = checkIndex(group, endpoint, index);
+    if (indexError) {
+      throw new Error(indexError);
+    }
 
-    // Send query (no arguments = GET)
-    await this.client.send(new Message(path));
+    if (maxAgeMs !== undefined) {
+      const cached = this.state.get(group, endpoint, index, maxAgeMs);
+      if (cached) return cached;
+    }
 
-    // Wait for response with timeout
-    const deadline = Date.now() + timeoutMs;
-    while (Date.now() < deadline) {
-      const response = this.responseBuffer.get(path);
-      if (response && response.timestamp > Date.now() - timeoutMs) {
-        return response;
-      }
-      await new Promise((resolve) => setTimeout(resolve, 50));
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      signal?.throwIfAborted();
+
+      // Register before sending so a fast reply cannot slip past us
+      const response = this.waitFor(path, timeoutMs, signal);
+      await this.client.send(new Message(path));
+      const entry = await response;
+      if (entry) return entry;
     }
 
     return null; // Timeout - no response received
   }
 
+  /**
+   * Wait for the next message at an address. Resolves null on timeout.
+   */
+  private waitFor(
+    address: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<StateEntry | null> {
+    return new Promise((resolve, reject) => {
+      const waiters = this.pending.get(address) ?? new Set<Waiter>();
+      this.pending.set(address, waiters);
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        waiters.delete(waiter);
+        if (waiters.size === 0 && this.pending.get(address) === waiters) {
+          this.pending.delete(address);
+        }
+      };
+      const waiter: Waiter = {
+        resolve: (entry) => {
+          cleanup();
+          resolve(entry);
+        },
+        reject: (err) => {
+          cleanup();
+          reject(err);
+        },
+      };
+      const onAbort = () => waiter.reject(signal!.reason);
+      const timer = setTimeout(() => waiter.resolve(null), timeoutMs);
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Settle every waiter pending on an address.
+   */
+  private settle(address: string, fn: (waiter: Waiter) => void): void {
+    const waiters = this.pending.get(address);
+    if (!waiters) return;
+    for (const waiter of [...waiters]) {
+      fn(waiter);
+    }
+  }
+
+  /**
+   * Validate a value for an endpoint and encode it as setValue would send
+   * it, without sending anything. Throws if the write is invalid.
+   */
+  prepareWrite(
+    group: string,
+    endpoint: string,
+    value: number | string,
+    index?: number
+  ): PendingWrite {
+    return this.encodeWrite(group, endpoint, value, index).write;
+  }
+
   /**
    * Set a value on the console.
    */
@@ -139,17 +374,69 @@ export class MidasOscClient {
       throw new Error("Not connected. Use the connect tool first.");
     }
 
+    const { msg, write } = this.encodeWrite(group, endpoint, value, index);
+    await this.writeGuard?.(write);
+    await this.transmit(msg, write);
+
+    // A dry-run write was only recorded, so the console still holds the old
+    // value. Toggles have no known resulting state until the console reports it
+    if (this.isDryRun) return;
+    if (write.spec.type !== "enPPCSwitchMessage" || write.spec.isAbsolute) {
+      this.state.update(write.path, [msg.args[0].value], "local");
+    }
+  }
+
+  /**
+   * Press a switch by sending 1, which flips a toggle switch. Unlike
+   * setValue this also works for switches the database lists without an
+   * argument type, such as mute group and VCA child assignments.
+   */
+  async pressSwitch(group: string, endpoint: string, index?: number): Promise<void> {
+    if (!this.client) {
+      throw new Error("Not connected. Use the connect tool first.");
+    }
+
+    const spec = getEndpointInfo(group, endpoint);
+    if (!spec || spec.type !== "enPPCSwitchMessage") {
+      throw new Error(`${group}/${endpoint} is not a switch.`);
+    }
+    const indexError = checkIndex(group, endpoint, index);
+    if (indexError) {
+      throw new Error(indexError);
+    }
+
+    const path = buildOscPath(group, endpoint, index)!;
+    const write: PendingWrite = { group, endpoint, index, path, value: 1, spec };
+    await this.writeGuard?.(write);
+    const msg = new Message(path);
+    msg.append({ type: "i", value: 1 });
+    await this.transmit(msg, write, true);
+  }
+
+  /** Validate a write and build its OSC message, clamping the value */
+  private encodeWrite(
+    group: string,
+    endpoint: string,
+    value: number | string,
+    index?: number
+  ): { msg: Message; write: PendingWrite } {
     const spec = getEndpointInfo(group, endpoint);
     if (!spec) {
       throw new Error(`Invalid endpoint: ${group}/${endpoint}`);
     }
 
-    if (spec.argumentType === null) {
+    const argumentType = argumentTypeOf(spec, endpoint);
+    if (argumentType === null) {
       throw new Error(
         `Endpoint ${endpoint} is read-only (meter) and cannot be set.`
       );
     }
 
+    const indexError = checkIndex(group, endpoint, index);
+    if (indexError) {
+      throw new Error(indexError);
+    }
+
     const path = buildOscPath(group, endpoint, index);
     if (!path) {
       throw new Error(`Failed to build OSC path for ${group}/${endpoint}`);
@@ -158,7 +445,7 @@ export class MidasOscClient {
     // Build type-safe message
     const msg = new Message(path);
 
-    switch (spec.argumentType) {
+    switch (argumentType) {
       case "float":
         if (typeof value !== "number") {
           throw new Error(`Expected a number for float argument, got ${typeof value}`);
@@ -184,7 +471,57 @@ export class MidasOscClient {
         break;
     }
 
-    await this.client.send(msg);
+    const write: PendingWrite = {
+      group,
+      endpoint,
+      index,
+      path,
+      value: msg.args[0].value as number | string,
+      spec,
+    };
+    return { msg, write };
+  }
+
+  /**
+   * Send a checked write and journal it, or only record it in dry-run mode.
+   */
+  private async transmit(msg: Message, write: PendingWrite, press = false): Promise<void> {
+    if (this.isDryRun) {
+      press ||= write.spec.type === "enPPCSwitchMessage" && !write.spec.isAbsolute;
+      const state = press ? await this.pressedState(write) : undefined;
+      this.recording.push({
+        at: new Date().toISOString(),
+        path: write.path,
+        group: write.group,
+        endpoint: write.endpoint,
+        index: write.index,
+        type: TYPE_TAGS[msg.args[0].type as string] ?? (msg.args[0].type as RecordedMessage["type"]),
+        value: write.value,
+        press: press ? true : undefined,
+        state,
+      });
+      return;
+    }
+
+    const previous = await this.writeJournal?.capture(write);
+    await this.client!.send(msg);
+    this.writeJournal?.record(write, previous);
+  }
+
+  /**
+   * The state a recorded press leaves a toggle switch in: the opposite of
+   * the last press recorded for it, or else of its state on the console.
+   */
+  private async pressedState(write: PendingWrite): Promise<0 | 1 | undefined> {
+    for (let i = this.recording.length - 1; i >= 0; i--) {
+      const earlier = this.recording[i];
+      if (earlier.press && earlier.path === write.path) {
+        return earlier.state === undefined ? undefined : earlier.state ? 0 : 1;
+      }
+    }
+    const response = await this.getValue(write.group, write.endpoint, write.index).catch(() => null);
+    const current = response?.args[0];
+    return typeof current === "number" ? (current ? 0 : 1) : undefined;
   }
 }
 
@@ -0,0 +1,156 @@
+import { listEndpoints, type EndpointSpec } from "./endpoints.js";
+import { formatRaw } from "./units.js";
+import type { MidasOscClient } from "./osc-client.js";
+import { batchGet, type BatchOptions } from "./batch.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface OverviewValue {
+  endpoint: string;
+  value: number | string;
+  human?: string;
+}
+
+export interface ChannelOverview {
+  group: string;
+  index?: number;
+  label?: string;
+  /** Values by strip section, in strip order */
+  sections: Record<string, OverviewValue[]>;
+  /** Endpoints that did not answer */
+  noResponse: string[];
+}
+
+// ── Classification ───────────────────────────────────────────────────────────
+
+/**
+ * Strip sections in top-to-bottom order, each matched by endpoint name.
+ * The first matching section wins.
+ */
+const SECTIONS: { name: string; pattern: RegExp }[] = [
+  { name: "Label", pattern: /^enPathname/ },
+  {
+    name: "Input",
+    pattern: /^enInput(Gain|Delay|PhaseIn)$|^enMicSplit(StepGain|PhantomPowerIn|HPFIn)$/,
+  },
+  { name: "Filters", pattern: /^enInput(High|Low)PassFlt/ },
+  { name: "Gate", pattern: /^en(ExpGate|ExpanderGate|Gate)/ },
+  { name: "Dynamics", pattern: /^en(Comp|ComLim|Dynamics)/ },
+  { name: "EQ", pattern: /^enPEQ|ShelfMode$/ },
+  { name: "Insert", pattern: /^enInsert/ },
+  { name: "Direct Out", pattern: /^enDirectOut/ },
+  { name: "Mute", pattern: /^enMute/ },
+  { name: "Fader", pattern: /^enFader|^enVCAFaderLevel$|^enMCAFaderLevel$/ },
+];
+
+/**
+ * Housekeeping endpoints left out of every section. Graphic EQs have too
+ * many bands for a strip view.
+ */
+const EXCLUDED = /Safe|Linked|Meter$|Interogate|SideChainMenu|^enGEQ/;
+
+/**
+ * Strip section of an endpoint, or null if it isn't part of the overview.
+ */
+export function classifyEndpoint(endpoint: string, spec: EndpointSpec): string | null {
+  if (spec.type === "enPPCMeterMessage" || EXCLUDED.test(endpoint)) return null;
+  return SECTIONS.find((s) => s.pattern.test(endpoint))?.name ?? null;
+}
+
+function displayValue(
+  spec: EndpointSpec,
+  group: string,
+  endpoint: string,
+  value: number | string
+): string | undefined {
+  if (typeof value === "string") return undefined;
+  const options = spec.metadata?.options;
+  if (options && Number.isInteger(value) && options[value] !== undefined) {
+    return options[value];
+  }
+  if (spec.type === "enPPCSwitchMessage") return value ? "on" : "off";
+  return formatRaw(group, endpoint, value) ?? undefined;
+}
+
+// ── Overview ─────────────────────────────────────────────────────────────────
+
+/**
+ * Read every strip parameter of one channel in parallel and sort the
+ * results into strip sections. Works for any group: endpoints are
+ * classified by name, so groups without, say, a gate simply have no Gate
+ * section.
+ */
+export async function getChannelOverview(
+  client: MidasOscClient,
+  group: string,
+  index: number | undefined,
+  options: BatchOptions = {}
+): Promise<ChannelOverview> {
+  const endpoints = listEndpoints(group);
+  if (!endpoints) {
+    throw new Error(`Group "${group}" not found.`);
+  }
+
+  // Per-channel endpoints when a channel is given, the group's own otherwise
+  const selected = endpoints
+    .filter(({ spec }) => spec.multiPath === (index !== undefined))
+    .map(({ endpoint, spec }) => ({ endpoint, spec, section: classifyEndpoint(endpoint, spec) }))
+    .filter((e): e is typeof e & { section: string } => e.section !== null)
+    .sort((a, b) => a.endpoint.localeCompare(b.endpoint, undefined, { numeric: true }));
+  if (selected.length === 0) {
+    throw new Error(
+      index !== undefined
+        ? `${group} has no per-channel strip parameters.`
+        : `${group} is indexed; give a channel index.`
+    );
+  }
+
+  const results = await batchGet(
+    client,
+    selected.map(({ endpoint }) => ({ group, endpoint, index })),
+    options
+  );
+
+  const overview: ChannelOverview = { group, index, sections: {}, noResponse: [] };
+  for (const { name } of SECTIONS) {
+    const values: OverviewValue[] = [];
+    selected.forEach(({ endpoint, spec, section }, i) => {
+      if (section !== name) return;
+      const r = results[i];
+      if (r.status !== "ok" || (typeof r.value !== "number" && typeof r.value !== "string")) {
+        overview.noResponse.push(endpoint);
+        return;
+      }
+      values.push({
+        endpoint,
+        value: r.value,
+        human: displayValue(spec, group, endpoint, r.value),
+      });
+    });
+    if (values.length > 0) overview.sections[name] = values;
+  }
+
+  const label = overview.sections.Label?.find((v) => v.endpoint === "enPathname")?.value;
+  if (typeof label === "string" && label.length > 0) overview.label = label;
+  return overview;
+}
+
+/**
+ * Render an overview as a strip, one block per section.
+ */
+export function formatChannelOverview(overview: ChannelOverview): string {
+  const title = `${overview.group}${overview.index !== undefined ? `/${overview.index}` : ""}`;
+  const lines = [`${title}${overview.label ? ` "${overview.label}"` : ""}`, "═".repeat(50)];
+
+  for (const [section, values] of Object.entries(overview.sections)) {
+    lines.push(`┌ ${section}`);
+    for (const v of values) {
+      const shown = v.human ?? (typeof v.value === "string" ? `"${v.value}"` : String(v.value));
+      lines.push(`│ ${v.endpoint.replace(/^en/, "").padEnd(32)} ${shown}`);
+    }
+  }
+  if (overview.noResponse.length > 0) {
+    lines.push("", `No response: ${overview.noResponse.join(", ")}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,180 @@
+import { formatRaw } from "./units.js";
+import type { ConnectionConfig, MidasOscClient, RecordedMessage } from "./osc-client.js";
+import { findInStores, listStore, readJsonFile, storePath, writeJsonFile } from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export const REHEARSAL_VERSION = 1;
+
+const REHEARSAL_STORE = "rehearsals";
+
+/**
+ * A dry-run recording saved for later replay
+ * (~/.midas-pro/rehearsals/<name>.json).
+ */
+export interface RehearsalFile {
+  version: number;
+  kind: "rehearsal";
+  name: string;
+  savedAt: string;
+  /** Console the session was rehearsed against */
+  console?: { ip: string; port: number };
+  messages: RecordedMessage[];
+}
+
+export interface ReplayOptions {
+  /** Pause between writes (default: 0) */
+  paceMs?: number;
+  /** Keep the gaps between writes as recorded, instead of paceMs */
+  keepTiming?: boolean;
+  /** Longest gap kept with keepTiming (default: 10000) */
+  maxGapMs?: number;
+}
+
+export interface ReplayResult {
+  message: RecordedMessage;
+  /** "unchanged": a press whose switch was already in the recorded state */
+  status: "ok" | "unchanged" | "skipped" | "failed";
+  error?: string;
+}
+
+// ── Store ────────────────────────────────────────────────────────────────────
+
+/**
+ * Save a recording as a named rehearsal. Returns the file path.
+ */
+export function saveRehearsal(
+  name: string,
+  messages: RecordedMessage[],
+  config: ConnectionConfig | null
+): string {
+  if (messages.length === 0) {
+    throw new Error("Nothing recorded. Connect with dry_run: true and make some changes first.");
+  }
+  const file: RehearsalFile = {
+    version: REHEARSAL_VERSION,
+    kind: "rehearsal",
+    name,
+    savedAt: new Date().toISOString(),
+    console: config ? { ip: config.ip, port: config.port } : undefined,
+    messages,
+  };
+  const path = storePath(REHEARSAL_STORE, name);
+  writeJsonFile(path, file);
+  return path;
+}
+
+export function loadRehearsal(name: string): RehearsalFile {
+  const found = findInStores([REHEARSAL_STORE], name);
+  if (!found) {
+    throw new Error(`No rehearsal named "${name}". Use export_dry_run to save one.`);
+  }
+  const file = readJsonFile<RehearsalFile>(found.path);
+  if (file?.kind !== "rehearsal" || !Array.isArray(file.messages)) {
+    throw new Error(`${found.path} is not a rehearsal.`);
+  }
+  if (file.version !== REHEARSAL_VERSION) {
+    throw new Error(
+      `Rehearsal "${name}" has version ${file.version}, expected ${REHEARSAL_VERSION}.`
+    );
+  }
+  return file;
+}
+
+export function listRehearsals(): string[] {
+  return listStore(REHEARSAL_STORE);
+}
+
+// ── Replay ───────────────────────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Press a toggle switch only if the console does not already have it in
+ * the state it was pressed into during the rehearsal, since the console
+ * may have changed since. Presses recorded without a state are skipped.
+ */
+async function replayPress(client: MidasOscClient, message: RecordedMessage): Promise<ReplayResult> {
+  if (message.state === undefined) {
+    return { message, status: "skipped", error: "switch state was unknown when rehearsed" };
+  }
+  const response = await client.getValue(message.group, message.endpoint, message.index);
+  const current = response?.args[0];
+  if (typeof current !== "number") {
+    throw new Error("no response reading the switch state");
+  }
+  if ((current ? 1 : 0) === message.state) return { message, status: "unchanged" };
+  await client.pressSwitch(message.group, message.endpoint, message.index);
+  return { message, status: "ok" };
+}
+
+/**
+ * Send recorded writes to the console in order. Each goes through setValue
+ * (or pressSwitch), so the safety policy and audit log apply as for any
+ * other write. Toggle presses are re-checked against the console first.
+ * Failures are reported per message and do not stop the rest.
+ */
+export async function replayMessages(
+  client: MidasOscClient,
+  messages: RecordedMessage[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult[]> {
+  const { paceMs = 0, keepTiming = false, maxGapMs = 10_000 } = options;
+  const results: ReplayResult[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (i > 0) {
+      const gap = keepTiming
+        ? Math.min(maxGapMs, Date.parse(message.at) - Date.parse(messages[i - 1].at))
+        : paceMs;
+      if (gap > 0) await sleep(gap);
+    }
+
+    try {
+      if (message.press) {
+        results.push(await replayPress(client, message));
+      } else {
+        await client.setValue(message.group, message.endpoint, message.value, message.index);
+        results.push({ message, status: "ok" });
+      }
+    } catch (err) {
+      results.push({
+        message,
+        status: "failed",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return results;
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+/**
+ * Render one recorded write as on the wire: path, type tag and value.
+ */
+export function formatRecordedMessage(message: RecordedMessage): string {
+  const human = formatRaw(message.group, message.endpoint, message.value);
+  return `${message.path} ,${message.type} ${JSON.stringify(message.value)}${human ? ` (${human})` : ""}${message.press ? ` [press${message.state === undefined ? "" : ` -> ${message.state ? "on" : "off"}`}]` : ""}`;
+}
+
+export function formatRecording(messages: readonly RecordedMessage[]): string {
+  return messages.map((m, i) => `  ${String(i + 1).padStart(3)}. ${formatRecordedMessage(m)}`).join("\n");
+}
+
+export function formatReplayResults(results: ReplayResult[]): string {
+  const ok = results.filter((r) => r.status === "ok").length;
+  const unchanged = results.filter((r) => r.status === "unchanged").length;
+  const lines = [
+    `Replayed ${ok} of ${results.length} write${results.length === 1 ? "" : "s"}${unchanged ? `; ${unchanged} switch${unchanged === 1 ? " was" : "es were"} already as rehearsed` : ""}`,
+  ];
+  for (const r of results) {
+    if (r.status === "failed" || r.status === "skipped") {
+      lines.push(`  ${r.status.toUpperCase()} ${formatRecordedMessage(r.message)}: ${r.error}`);
+    }
+  }
+  return lines.join("\n");
+}
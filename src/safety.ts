@@ -0,0 +1,626 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { existsSync, statSync } from "node:fs";
+import type { OscMessageType } from "./endpoints.js";
+import { getUnitCurve, rawToValue, formatRaw } from "./units.js";
+import { midasClient, type MidasOscClient, type PendingWrite } from "./osc-client.js";
+import { storePath, readJsonFile, writeJsonFile } from "./storage.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type PolicyAction = "allow" | "deny" | "confirm";
+
+/**
+ * A rule matching writes by group, endpoint, message type, channel and
+ * value. Omitted fields match anything. The first matching rule decides.
+ */
+export interface PolicyRule {
+  name: string;
+  action: PolicyAction;
+  /** Group name; "*" matches any run of characters */
+  group?: string;
+  /** Endpoint name; "*" matches any run of characters */
+  endpoint?: string;
+  type?: OscMessageType;
+  indices?: number[];
+  /** Match values above this, in the endpoint's units (dB for faders) or raw */
+  above?: number;
+  /** Match values below this, in the endpoint's units or raw */
+  below?: number;
+  /** Shown when the rule blocks a write */
+  reason?: string;
+}
+
+/**
+ * Limit on how far a dB parameter may move within a time window, measured
+ * from where it was when the window started.
+ */
+export interface JumpLimit {
+  name: string;
+  group?: string;
+  endpoint: string;
+  maxDb: number;
+  /** Window length (default: 1000) */
+  windowMs?: number;
+  action: Exclude<PolicyAction, "allow">;
+}
+
+/** "read-only" denies every write, e.g. during a show */
+export type SafetyMode = "normal" | "read-only";
+
+/**
+ * Safety policy file format (~/.midas-pro/safety/policy.json).
+ */
+export interface SafetyPolicy {
+  schemaVersion: number;
+  mode: SafetyMode;
+  rules: PolicyRule[];
+  jumpLimits: JumpLimit[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** Name of the rule or limit that decided, if any */
+  rule?: string;
+  reason?: string;
+}
+
+/** A change to the safety policy, as made by the policy tools */
+export type PolicyChange =
+  | { kind: "mode"; mode: SafetyMode }
+  | { kind: "rule"; rule: PolicyRule; position?: number }
+  | { kind: "jumpLimit"; limit: JumpLimit }
+  | { kind: "remove"; name: string };
+
+/** A policy change held back because it loosens the policy */
+export interface PendingPolicyChange {
+  change: PolicyChange;
+  reason: string;
+}
+
+/**
+ * Writes and policy changes held back for confirmation, approved together
+ * by one token.
+ */
+export interface PendingConfirmation {
+  token: string;
+  expiresAt: number;
+  writes: { write: PendingWrite; decision: PolicyDecision }[];
+  policyChanges: PendingPolicyChange[];
+}
+
+interface ConfirmationScope {
+  approved: Set<string>;
+  pending: PendingConfirmation["writes"];
+  policyChanges: PendingPolicyChange[];
+}
+
+// ── Defaults ─────────────────────────────────────────────────────────────────
+
+export const SAFETY_POLICY_SCHEMA_VERSION = 1;
+
+const POLICY_STORE = "safety";
+const POLICY_NAME = "policy";
+
+/** How long a confirmation token stays valid */
+const TOKEN_TTL_MS = 120_000;
+/** How long to wait for the console when a jump limit needs the current level */
+const JUMP_READ_TIMEOUT_MS = 500;
+const DEFAULT_JUMP_WINDOW_MS = 1000;
+
+/** Used until a policy is saved; replaces the old built-in dangerous list */
+export const DEFAULT_POLICY: SafetyPolicy = {
+  schemaVersion: SAFETY_POLICY_SCHEMA_VERSION,
+  mode: "normal",
+  rules: [
+    {
+      name: "reboot",
+      action: "confirm",
+      endpoint: "enRebootConsole",
+      reason: "reboots the console",
+    },
+    {
+      name: "reset-globals",
+      action: "confirm",
+      endpoint: "enResetGlobalsToDefault",
+      reason: "resets global settings to their defaults",
+    },
+  ],
+  jumpLimits: [
+    {
+      name: "fader-jump",
+      endpoint: "enFaderLevel",
+      maxDb: 30,
+      windowMs: DEFAULT_JUMP_WINDOW_MS,
+      action: "confirm",
+    },
+  ],
+};
+
+// ── Matching ─────────────────────────────────────────────────────────────────
+
+function globMatch(pattern: string | undefined, name: string): boolean {
+  if (pattern === undefined) return true;
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/** Value in the endpoint's units, or the raw number if it has none */
+function unitValue(write: PendingWrite): number | null {
+  if (typeof write.value !== "number") return null;
+  const curve = getUnitCurve(write.group, write.endpoint);
+  return curve ? rawToValue(curve, write.value) : write.value;
+}
+
+function ruleMatches(rule: PolicyRule, write: PendingWrite): boolean {
+  if (!globMatch(rule.group, write.group)) return false;
+  if (!globMatch(rule.endpoint, write.endpoint)) return false;
+  if (rule.type && rule.type !== write.spec.type) return false;
+  if (rule.indices && (write.index === undefined || !rule.indices.includes(write.index))) {
+    return false;
+  }
+  if (rule.above !== undefined || rule.below !== undefined) {
+    const value = unitValue(write);
+    if (value === null) return false;
+    if (rule.above !== undefined && !(value > rule.above)) return false;
+    if (rule.below !== undefined && !(value < rule.below)) return false;
+  }
+  return true;
+}
+
+/**
+ * Check a rule or limit before it is saved.
+ */
+function validateRule(rule: PolicyRule | JumpLimit): void {
+  if (!rule.name.trim()) throw new Error("Rules need a name.");
+  for (const pattern of [rule.group, rule.endpoint]) {
+    if (pattern !== undefined && !/^[\w*]+$/.test(pattern)) {
+      throw new Error(`Invalid pattern "${pattern}". Use names with "*" wildcards.`);
+    }
+  }
+  if ("maxDb" in rule && !(rule.maxDb > 0)) {
+    throw new Error("maxDb must be positive.");
+  }
+}
+
+export function describeRule(rule: PolicyRule): string {
+  const target = `${rule.group ?? "*"}/${rule.endpoint ?? "*"}${rule.indices ? `/${rule.indices.join(",")}` : ""}`;
+  const conditions = [
+    rule.type ? `type ${rule.type}` : "",
+    rule.above !== undefined ? `above ${rule.above}` : "",
+    rule.below !== undefined ? `below ${rule.below}` : "",
+  ].filter(Boolean);
+  return `${rule.action.toUpperCase()} ${target}${conditions.length ? ` ${conditions.join(", ")}` : ""}`;
+}
+
+export function describeJumpLimit(limit: JumpLimit): string {
+  return `${limit.action.toUpperCase()} ${limit.group ?? "*"}/${limit.endpoint} moving more than ${limit.maxDb} dB in ${limit.windowMs ?? DEFAULT_JUMP_WINDOW_MS} ms`;
+}
+
+export function describePolicyChange(change: PolicyChange): string {
+  switch (change.kind) {
+    case "mode":
+      return `switch to ${change.mode} mode`;
+    case "rule":
+      return `rule "${change.rule.name}": ${describeRule(change.rule)}`;
+    case "jumpLimit":
+      return `jump limit "${change.limit.name}": ${describeJumpLimit(change.limit)}`;
+    case "remove":
+      return `remove "${change.name}"`;
+  }
+}
+
+function writeKey(write: PendingWrite): string {
+  return `${write.path} ${JSON.stringify(write.value)}`;
+}
+
+function policyChangeKey(change: PolicyChange): string {
+  return `policy ${JSON.stringify(change)}`;
+}
+
+// ── Safety Engine ────────────────────────────────────────────────────────────
+
+/**
+ * Checks every write the client sends against the safety policy. Denied
+ * writes throw; writes needing confirmation throw too, and are collected
+ * when made inside withConfirmation so the caller can hand out a token
+ * that lets the same writes through on the next attempt.
+ */
+export class SafetyEngine {
+  private policy: SafetyPolicy | null = null;
+  private loadedMtimeMs = 0;
+  private tokens: Map<string, PendingConfirmation> = new Map();
+  private scopes = new AsyncLocalStorage<ConfirmationScope>();
+  /** OSC address of the fade being run, whose writes are already approved */
+  private fades = new AsyncLocalStorage<string>();
+  /** Start of the current jump window per OSC address */
+  private windows: Map<string, { at: number; fromDb: number }> = new Map();
+
+  constructor(private client: MidasOscClient) {
+    client.setWriteGuard((write) => this.enforce(write));
+  }
+
+  /**
+   * The policy in effect. The file is re-read when it changes on disk, so
+   * hand edits apply without a restart.
+   */
+  getPolicy(): SafetyPolicy {
+    const path = storePath(POLICY_STORE, POLICY_NAME);
+    if (!existsSync(path)) {
+      this.policy ??= structuredClone(DEFAULT_POLICY);
+      return this.policy;
+    }
+
+    const mtimeMs = statSync(path).mtimeMs;
+    if (!this.policy || mtimeMs !== this.loadedMtimeMs) {
+      const loaded = readJsonFile<SafetyPolicy>(path);
+      if (loaded.schemaVersion !== SAFETY_POLICY_SCHEMA_VERSION) {
+        throw new Error(
+          `${path} has schema version ${loaded.schemaVersion}, expected ${SAFETY_POLICY_SCHEMA_VERSION}`
+        );
+      }
+      this.policy = {
+        ...loaded,
+        mode: loaded.mode ?? "normal",
+        rules: loaded.rules ?? [],
+        jumpLimits: loaded.jumpLimits ?? [],
+      };
+      this.loadedMtimeMs = mtimeMs;
+    }
+    return this.policy;
+  }
+
+  setMode(mode: SafetyMode): void {
+    this.update((policy) => {
+      policy.mode = mode;
+    });
+  }
+
+  /**
+   * Add or replace a rule. New rules go at `position` (default: the end);
+   * a replaced rule keeps its place unless a position is given.
+   */
+  addRule(rule: PolicyRule, position?: number): void {
+    validateRule(rule);
+    this.update((policy) => {
+      const at = policy.rules.findIndex((r) => r.name === rule.name);
+      if (at >= 0 && position === undefined) {
+        policy.rules[at] = rule;
+        return;
+      }
+      if (at >= 0) policy.rules.splice(at, 1);
+      policy.rules.splice(position ?? policy.rules.length, 0, rule);
+    });
+  }
+
+  setJumpLimit(limit: JumpLimit): void {
+    validateRule(limit);
+    this.update((policy) => {
+      policy.jumpLimits = [...policy.jumpLimits.filter((l) => l.name !== limit.name), limit];
+    });
+  }
+
+  /**
+   * Remove a rule or jump limit by name. Returns false if there was none.
+   */
+  remove(name: string): boolean {
+    const policy = this.getPolicy();
+    const found =
+      policy.rules.some((r) => r.name === name) ||
+      policy.jumpLimits.some((l) => l.name === name);
+    if (!found) return false;
+    this.update((p) => {
+      p.rules = p.rules.filter((r) => r.name !== name);
+      p.jumpLimits = p.jumpLimits.filter((l) => l.name !== name);
+    });
+    return true;
+  }
+
+  /**
+   * Decide what to do with a write, without side effects.
+   */
+  check(write: PendingWrite): PolicyDecision {
+    const policy = this.getPolicy();
+    if (policy.mode === "read-only") {
+      return { action: "deny", reason: "the safety policy is in read-only mode" };
+    }
+
+    const rule = policy.rules.find((r) => ruleMatches(r, write));
+    if (rule) {
+      return { action: rule.action, rule: rule.name, reason: rule.reason ?? describeRule(rule) };
+    }
+
+    const jump = this.jumpFor(write);
+    if (jump?.movedDb === null) {
+      return {
+        action: "confirm",
+        rule: jump.limit.name,
+        reason: `the current level of ${write.endpoint} is unknown, so the move cannot be checked against the jump limit`,
+      };
+    }
+    if (jump && jump.movedDb > jump.limit.maxDb) {
+      return {
+        action: jump.limit.action,
+        rule: jump.limit.name,
+        reason: `moves ${write.endpoint} by ${jump.movedDb.toFixed(1)} dB (limit ${jump.limit.maxDb} dB per ${jump.limit.windowMs ?? DEFAULT_JUMP_WINDOW_MS} ms)`,
+      };
+    }
+    return { action: "allow" };
+  }
+
+  /**
+   * True if the current or the default policy stops every write to this
+   * endpoint, whatever the value or channel. Such endpoints are commands
+   * (reboot, reset) that must not even be queried, so the default rules
+   * count even if the policy file drops them.
+   */
+  restricts(group: string, endpoint: string, type: OscMessageType): boolean {
+    return [this.getPolicy(), DEFAULT_POLICY].some((policy) => {
+      const rule = policy.rules.find(
+        (r) =>
+          globMatch(r.group, group) &&
+          globMatch(r.endpoint, endpoint) &&
+          (!r.type || r.type === type) &&
+          !r.indices &&
+          r.above === undefined &&
+          r.below === undefined
+      );
+      return rule !== undefined && rule.action !== "allow";
+    });
+  }
+
+  /**
+   * Run `fn`, collecting writes that need confirmation. If `token` is
+   * given, the writes it was issued for are let through once. Returns a new
+   * pending confirmation if anything was held back.
+   */
+  async withConfirmation<T>(
+    token: string | undefined,
+    fn: () => Promise<T>
+  ): Promise<{ result: T; pending: PendingConfirmation | null }> {
+    const scope: ConfirmationScope = { approved: new Set(), pending: [], policyChanges: [] };
+    if (token !== undefined) {
+      const confirmed = this.takeToken(token);
+      for (const { write } of confirmed.writes) scope.approved.add(writeKey(write));
+      for (const { change } of confirmed.policyChanges) scope.approved.add(policyChangeKey(change));
+    }
+
+    const result = await this.scopes.run(scope, fn);
+    if (scope.pending.length === 0 && scope.policyChanges.length === 0) {
+      return { result, pending: null };
+    }
+
+    const pending: PendingConfirmation = {
+      token: randomBytes(4).toString("hex"),
+      expiresAt: Date.now() + TOKEN_TTL_MS,
+      writes: scope.pending,
+      policyChanges: scope.policyChanges,
+    };
+    this.tokens.set(pending.token, pending);
+    return { result, pending };
+  }
+
+  /**
+   * Run a fade, checked once as a whole: `target` (the end value) is
+   * checked as a single move from the current value, then the writes `run`
+   * makes to the same address pass without further checks. Fade steps
+   * checked one by one would stall partway at a jump limit, and a token
+   * could never cover them since their values depend on where the fade
+   * stopped.
+   */
+  async approveFade<T>(target: PendingWrite, run: () => Promise<T>): Promise<T> {
+    await this.enforce(target);
+    try {
+      return await this.fades.run(target.path, run);
+    } finally {
+      // The next move is measured from where the fade ended
+      this.windows.delete(target.path);
+    }
+  }
+
+  /**
+   * Hold a write back for confirmation for a reason outside the policy,
+   * such as live signal on a socket about to get phantom power. Returns
+   * true if the token of the current withConfirmation call approved it;
+   * otherwise the write is added to the pending confirmation and the caller
+   * must not send it.
+   */
+  requireConfirmation(write: PendingWrite, reason: string, rule?: string): boolean {
+    const scope = this.scopes.getStore();
+    if (scope?.approved.delete(writeKey(write))) return true;
+    scope?.pending.push({ write, decision: { action: "confirm", rule, reason } });
+    return false;
+  }
+
+  /**
+   * Hold back a policy change that loosens the policy until the user
+   * confirms it, so a client the policy restricts cannot lift the
+   * restriction itself; changes that only tighten it pass at once. Returns
+   * true if the change may be made, otherwise it is added to the pending
+   * confirmation of the current withConfirmation call and the caller must
+   * not make it.
+   */
+  approvePolicyChange(change: PolicyChange): boolean {
+    const reason = this.loosens(change);
+    if (reason === null) return true;
+    const scope = this.scopes.getStore();
+    if (scope?.approved.delete(policyChangeKey(change))) return true;
+    scope?.policyChanges.push({ change, reason });
+    return false;
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────
+
+  /** How a change would loosen the policy, or null if it only tightens it */
+  private loosens(change: PolicyChange): string | null {
+    const policy = this.getPolicy();
+    switch (change.kind) {
+      case "mode":
+        return policy.mode === "read-only" && change.mode === "normal"
+          ? "writes are allowed again"
+          : null;
+      case "rule": {
+        const { rule, position = policy.rules.length } = change;
+        if (policy.rules.some((r) => r.name === rule.name)) {
+          return `replaces the rule "${rule.name}"`;
+        }
+        if (rule.action === "allow") return "matching writes skip the later rules and jump limits";
+        // A confirm rule decides before whatever it is placed ahead of
+        const stricter =
+          policy.rules.slice(position).some((r) => r.action === "deny") ||
+          policy.jumpLimits.some((l) => l.action === "deny");
+        return rule.action === "confirm" && stricter
+          ? "matching writes that are denied now would only need confirmation"
+          : null;
+      }
+      case "jumpLimit":
+        // New limits go last and only cover writes no earlier limit covers
+        return policy.jumpLimits.some((l) => l.name === change.limit.name)
+          ? `replaces the jump limit "${change.limit.name}"`
+          : null;
+      case "remove": {
+        const rule = policy.rules.find((r) => r.name === change.name);
+        if (rule?.action === "allow") return null;
+        if (rule) return `matching writes are no longer ${rule.action === "deny" ? "denied" : "held for confirmation"}`;
+        return policy.jumpLimits.some((l) => l.name === change.name)
+          ? "moves are no longer checked against it"
+          : null;
+      }
+    }
+  }
+
+  private update(change: (policy: SafetyPolicy) => void): void {
+    const policy = structuredClone(this.getPolicy());
+    change(policy);
+    const path = storePath(POLICY_STORE, POLICY_NAME);
+    writeJsonFile(path, policy);
+    this.policy = policy;
+    this.loadedMtimeMs = statSync(path).mtimeMs;
+  }
+
+  private takeToken(token: string): PendingConfirmation {
+    const now = Date.now();
+    for (const [key, pending] of this.tokens) {
+      if (pending.expiresAt < now) this.tokens.delete(key);
+    }
+    const pending = this.tokens.get(token);
+    if (!pending) {
+      throw new Error(`Confirmation token "${token}" is unknown or has expired.`);
+    }
+    this.tokens.delete(token);
+    return pending;
+  }
+
+  private currentDb(write: PendingWrite): number | null {
+    const curve = getUnitCurve(write.group, write.endpoint);
+    const cached = this.client.getCached(write.group, write.endpoint, write.index)?.args[0];
+    if (curve?.unit !== "dB" || typeof cached !== "number") return null;
+    return rawToValue(curve, cached);
+  }
+
+  /** The jump limit covering a write; only dB parameters can have one */
+  private jumpLimitFor(write: PendingWrite): JumpLimit | undefined {
+    if (getUnitCurve(write.group, write.endpoint)?.unit !== "dB") return undefined;
+    return this.getPolicy().jumpLimits.find(
+      (l) => globMatch(l.group, write.group) && globMatch(l.endpoint, write.endpoint)
+    );
+  }
+
+  /**
+   * How far this write moves its parameter within the applicable jump
+   * window; movedDb is null if the current value is unknown. Null if no
+   * limit applies.
+   */
+  private jumpFor(write: PendingWrite): { limit: JumpLimit; movedDb: number | null } | null {
+    const limit = this.jumpLimitFor(write);
+    const target = unitValue(write);
+    if (!limit || target === null) return null;
+
+    const window = this.windows.get(write.path);
+    const windowMs = limit.windowMs ?? DEFAULT_JUMP_WINDOW_MS;
+    const fromDb =
+      window && Date.now() - window.at < windowMs ? window.fromDb : this.currentDb(write);
+    return { limit, movedDb: fromDb === null ? null : Math.abs(target - fromDb) };
+  }
+
+  /**
+   * Make sure the current value is cached before a jump limit is checked,
+   * e.g. for the first write to a fader after connecting.
+   */
+  private async readBeforeJump(write: PendingWrite): Promise<void> {
+    if (!this.jumpLimitFor(write) || this.currentDb(write) !== null) return;
+    try {
+      await this.client.getValue(write.group, write.endpoint, write.index, {
+        timeoutMs: JUMP_READ_TIMEOUT_MS,
+      });
+    } catch {
+      // Left unknown; check() asks for confirmation
+    }
+  }
+
+  /** Open a jump window at the value before the first write in it */
+  private recordMove(write: PendingWrite): void {
+    const window = this.windows.get(write.path);
+    const limit = this.jumpLimitFor(write);
+    if (!limit) return;
+    if (window && Date.now() - window.at < (limit.windowMs ?? DEFAULT_JUMP_WINDOW_MS)) return;
+
+    const fromDb = this.currentDb(write);
+    if (fromDb !== null) this.windows.set(write.path, { at: Date.now(), fromDb });
+  }
+
+  private async enforce(write: PendingWrite): Promise<void> {
+    if (this.fades.getStore() === write.path) return;
+    const scope = this.scopes.getStore();
+    if (scope?.approved.delete(writeKey(write))) {
+      this.recordMove(write);
+      return;
+    }
+
+    await this.readBeforeJump(write);
+    const decision = this.check(write);
+    if (decision.action === "allow") {
+      this.recordMove(write);
+      return;
+    }
+    const rule = decision.rule ? ` (${decision.rule})` : "";
+    if (decision.action === "deny") {
+      throw new Error(`Denied by safety policy${rule}: ${decision.reason}.`);
+    }
+    scope?.pending.push({ write, decision });
+    throw new Error(`Needs confirmation${rule}: ${decision.reason}.`);
+  }
+}
+
+/**
+ * Render writes and policy changes held back for confirmation and how to
+ * let them through.
+ */
+export function formatPendingConfirmation(pending: PendingConfirmation): string {
+  const writes = pending.writes.length;
+  const changes = pending.policyChanges.length;
+  const held = [
+    writes > 0 ? `${writes} write${writes === 1 ? "" : "s"}` : "",
+    changes > 0 ? `${changes} policy change${changes === 1 ? "" : "s"}` : "",
+  ].filter(Boolean);
+  const lines = [`CONFIRMATION REQUIRED for ${held.join(" and ")}:`];
+  for (const { change, reason } of pending.policyChanges) {
+    lines.push(`  ${describePolicyChange(change)}: ${reason}`);
+  }
+  for (const { write, decision } of pending.writes) {
+    const human = formatRaw(write.group, write.endpoint, write.value);
+    lines.push(
+      `  ${write.path} = ${human ?? JSON.stringify(write.value)}: ${decision.reason}${decision.rule ? ` [${decision.rule}]` : ""}`
+    );
+  }
+  lines.push(
+    `Ask the user. To go ahead, repeat the same call with confirm_token: "${pending.token}" (valid for ${TOKEN_TTL_MS / 1000} s).`
+  );
+  return lines.join("\n");
+}
+
+// Singleton engine guarding the shared client
+export const safetyEngine = new SafetyEngine(midasClient);
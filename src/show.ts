@@ -0,0 +1,470 @@
+import {
+  listEndpoints,
+  getEndpointInfo,
+  getGroupNames,
+  argumentTypeOf,
+  type EndpointSpec,
+} from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import {
+  batchGet,
+  batchSet,
+  type BatchItem,
+  type BatchOptions,
+  type BatchResult,
+} from "./batch.js";
+import { restoreSkipReason } from "./snapshot.js";
+import { safetyEngine } from "./safety.js";
+import { indexKey } from "./state-cache.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export const SHOW_VERSION = 1;
+
+export type ShowValue = number | string;
+
+/** group → endpoint → index ("-" when unindexed) → value */
+export type ShowValues = Record<string, Record<string, Record<string, ShowValue>>>;
+
+/**
+ * Complete console state as read over OSC.
+ */
+export interface ShowFile {
+  version: typeof SHOW_VERSION;
+  kind: "show";
+  takenAt: string;
+  console?: string;
+  values: ShowValues;
+  /** Channel sections left out because their store safe was on */
+  storeSafed: { group: string; index?: number; sections: string[] }[];
+  /** Groups whose indexed endpoints were skipped (instance count unknown) */
+  skippedGroups: string[];
+}
+
+export interface ShowChange {
+  group: string;
+  endpoint: string;
+  index?: number;
+  from: ShowValue | undefined;
+  to: ShowValue;
+  /** Toggle switch: set by pressing it, since it flips on any write */
+  press?: true;
+}
+
+export interface ImportReport {
+  changes: ShowChange[];
+  /** Writes made, and toggles left alone because their state is unknown */
+  results: BatchResult[];
+  unchanged: number;
+  /** Parameters left alone because a recall safe protects them */
+  recallSafed: number;
+  /** Parameters that can't be written (read-only, cycling switches) */
+  notRestorable: number;
+  /** Parameters the console did not answer for */
+  noResponse: number;
+}
+
+export interface ShowProgress {
+  phase: "read" | "write";
+  done: number;
+  total: number;
+}
+
+export interface ShowOptions extends Omit<BatchOptions, "onProgress"> {
+  onProgress?: (progress: ShowProgress) => void;
+}
+
+export interface ExportOptions extends ShowOptions {
+  /** Instance counts for groups the metadata gives none for */
+  indexCounts?: Record<string, number>;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// ── Safes ────────────────────────────────────────────────────────────────────
+
+/**
+ * Endpoint name patterns covered by each channel safe section. "Auto" is
+ * treated as covering the whole channel.
+ */
+const SAFE_SECTIONS: Record<string, RegExp> = {
+  Auto: /./,
+  Fader: /Fader(Level|Image)|^enMCAFaderLevel|^enVCAFaderLevel/,
+  Mute: /Mute/,
+  EQ: /^en(PEQ|GEQ)|ShelfMode/,
+  Dynamics: /^en(Comp|ComLim|ExpGate|Expander|Gate|Dynamics)/,
+  Routing: /Send|^enDirect|^enDirIn|^enInsert/,
+  Mic: /^enInput(Gain|Delay|Phase|HighPass|LowPass)|^enMicSplit|^enTape/,
+};
+
+/**
+ * Work out which endpoints a safe switch protects, e.g. enEQRecallSafe
+ * covers the EQ section and enSubMixSendRecallSafe3 covers submix send 3.
+ */
+function safeCoverage(
+  safeEndpoint: string,
+  kind: "Recall" | "Store"
+): { section: string; covers: RegExp } | null {
+  const match = new RegExp(`^en(\\w+?)${kind}Safe(\\d*)$`).exec(safeEndpoint);
+  if (!match) return null;
+
+  const [, section, number] = match;
+  if (number) {
+    const prefixes = [section, section.replace("Mix", "")];
+    return {
+      section: `${section} ${number}`,
+      covers: new RegExp(`^en(${prefixes.join("|")})\\D*${number}$`),
+    };
+  }
+  const covers = SAFE_SECTIONS[section];
+  return covers ? { section, covers } : null;
+}
+
+/**
+ * Active safes for one channel, given its values.
+ */
+function activeSafes(
+  channel: Record<string, ShowValue | undefined>,
+  kind: "Recall" | "Store"
+): { section: string; covers: RegExp }[] {
+  const safes: { section: string; covers: RegExp }[] = [];
+  for (const [endpoint, value] of Object.entries(channel)) {
+    if (typeof value !== "number" || value === 0) continue;
+    const coverage = safeCoverage(endpoint, kind);
+    if (coverage) safes.push(coverage);
+  }
+  return safes;
+}
+
+function isSafeSwitch(endpoint: string): boolean {
+  return /(Recall|Store)Safe\d*$/.test(endpoint);
+}
+
+/** Mute, VCA and talk group membership switches, e.g. enVCAChildInput3 */
+function isAssignmentSwitch(endpoint: string): boolean {
+  return /^en(MuteGroup|VCA|TalkGroup)Child/.test(endpoint);
+}
+
+/**
+ * Toggle switches a show sets by pressing them: those with an argument,
+ * such as mutes, and group assignments. Safe switches are read but left
+ * alone.
+ */
+function isPressable(spec: EndpointSpec, endpoint: string): boolean {
+  if (spec.type !== "enPPCSwitchMessage" || spec.isAbsolute) return false;
+  return argumentTypeOf(spec, endpoint) !== null || isAssignmentSwitch(endpoint);
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two values, allowing for float32 rounding on the wire.
+ */
+export function valuesEqual(a: ShowValue | undefined, b: ShowValue): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) < 1e-4;
+  }
+  return a === b;
+}
+
+export function keyToIndex(key: string): number | undefined {
+  return key === indexKey(undefined) ? undefined : parseInt(key, 10);
+}
+
+/**
+ * Build the read list for a set of groups. Meters are excluded, as are
+ * argument-less commands and endpoints the safety policy always guards
+ * (reboot, reset), since an empty message to them would trigger rather
+ * than query. Safe switches and group assignments are read even though
+ * they have no argument type, as importShow and the group tools do.
+ * Indexed endpoints need an instance count, from the metadata or
+ * `indexCounts`.
+ */
+function showItems(
+  groups: string[],
+  indexCounts: Record<string, number> = {}
+): { items: BatchItem[]; skippedGroups: string[] } {
+  const items: BatchItem[] = [];
+  const skippedGroups: string[] = [];
+
+  for (const group of groups) {
+    const endpoints = listEndpoints(group);
+    if (!endpoints) {
+      throw new Error(`Group "${group}" not found.`);
+    }
+
+    let skipped = false;
+    for (const { endpoint, spec } of endpoints) {
+      if (spec.type === "enPPCMeterMessage") continue;
+      if (
+        argumentTypeOf(spec, endpoint) === null &&
+        !isSafeSwitch(endpoint) &&
+        !isAssignmentSwitch(endpoint)
+      ) {
+        continue;
+      }
+      if (safetyEngine.restricts(group, endpoint, spec.type)) continue;
+      if (!spec.multiPath) {
+        items.push({ group, endpoint });
+        continue;
+      }
+      const count = spec.metadata?.indexCount ?? indexCounts[group];
+      if (count === undefined) {
+        skipped = true;
+        continue;
+      }
+      for (let index = 0; index < count; index++) {
+        items.push({ group, endpoint, index });
+      }
+    }
+    if (skipped) skippedGroups.push(group);
+  }
+
+  return { items, skippedGroups };
+}
+
+/**
+ * Collect successful reads into show values.
+ */
+export function toShowValues(results: BatchResult[]): ShowValues {
+  const values: ShowValues = {};
+  for (const r of results) {
+    if (r.status !== "ok") continue;
+    if (typeof r.value !== "number" && typeof r.value !== "string") continue;
+    ((values[r.group] ??= {})[r.endpoint] ??= {})[indexKey(r.index)] = r.value;
+  }
+  return values;
+}
+
+/**
+ * Regroup show values per channel: group → index key → endpoint → value.
+ */
+function byChannel(
+  values: ShowValues
+): Record<string, Record<string, Record<string, ShowValue>>> {
+  const channels: Record<string, Record<string, Record<string, ShowValue>>> = {};
+  for (const [group, endpoints] of Object.entries(values)) {
+    for (const [endpoint, instances] of Object.entries(endpoints)) {
+      for (const [key, value] of Object.entries(instances)) {
+        ((channels[group] ??= {})[key] ??= {})[endpoint] = value;
+      }
+    }
+  }
+  return channels;
+}
+
+/**
+ * Check that a parsed document is a show file this build understands.
+ */
+export function validateShowFile(doc: unknown): ShowFile {
+  const show = doc as Partial<ShowFile> | null;
+  if (!show || show.kind !== "show") {
+    throw new Error("Not a show file.");
+  }
+  if (show.version !== SHOW_VERSION) {
+    throw new Error(
+      `Unsupported show file version ${show.version} (expected ${SHOW_VERSION}).`
+    );
+  }
+  if (!show.values) {
+    throw new Error("Show file has no values.");
+  }
+  return show as ShowFile;
+}
+
+// ── Export / Import ──────────────────────────────────────────────────────────
+
+/**
+ * Read the whole console (or the given groups) into a show file. Channel
+ * sections whose store safe is on are left out, as the console would.
+ */
+export async function exportShow(
+  client: MidasOscClient,
+  groups: string[] = getGroupNames(),
+  options: ExportOptions = {}
+): Promise<{ show: ShowFile; noResponse: number }> {
+  const { onProgress, indexCounts, ...batchOptions } = options;
+  const { items, skippedGroups } = showItems(groups, indexCounts);
+
+  const results = await batchGet(client, items, {
+    ...batchOptions,
+    onProgress: (done, total) => onProgress?.({ phase: "read", done, total }),
+  });
+  const values = toShowValues(results);
+
+  const storeSafed: ShowFile["storeSafed"] = [];
+  for (const [group, channels] of Object.entries(byChannel(values))) {
+    for (const [key, channel] of Object.entries(channels)) {
+      const safes = activeSafes(channel, "Store");
+      if (safes.length === 0) continue;
+
+      for (const endpoint of Object.keys(channel)) {
+        if (isSafeSwitch(endpoint)) continue;
+        if (safes.some((s) => s.covers.test(endpoint))) {
+          delete values[group][endpoint][key];
+        }
+      }
+      storeSafed.push({
+        group,
+        index: keyToIndex(key),
+        sections: safes.map((s) => s.section),
+      });
+    }
+  }
+
+  const info = client.connectionInfo;
+  return {
+    show: {
+      version: SHOW_VERSION,
+      kind: "show",
+      takenAt: new Date().toISOString(),
+      console: info ? `${info.ip}:${info.port}` : undefined,
+      values,
+      storeSafed,
+      skippedGroups,
+    },
+    noResponse: results.filter((r) => r.status !== "ok").length,
+  };
+}
+
+/**
+ * Diff a show file against the live console and write only what differs.
+ * Toggle switches are pressed where their live state differs, and left
+ * alone (reported as failed) where it is unknown. Parameters protected by
+ * an active recall safe on the console are left alone. With dryRun,
+ * nothing is written.
+ */
+export async function importShow(
+  client: MidasOscClient,
+  show: ShowFile,
+  options: ShowOptions & { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const { onProgress, dryRun = false, ...batchOptions } = options;
+
+  // Read the live value of everything in the file, plus each channel's safes
+  const reads: BatchItem[] = [];
+  const seen = new Set<string>();
+  for (const [group, endpoints] of Object.entries(show.values)) {
+    const safeNames = (listEndpoints(group) ?? [])
+      .filter(({ endpoint }) => safeCoverage(endpoint, "Recall"))
+      .map(({ endpoint }) => endpoint);
+
+    for (const [endpoint, instances] of Object.entries(endpoints)) {
+      for (const key of Object.keys(instances)) {
+        const index = keyToIndex(key);
+        for (const name of [endpoint, ...safeNames]) {
+          const id = `${group}/${name}/${key}`;
+          if (seen.has(id)) continue;
+          seen.add(id);
+          if (name === endpoint || getEndpointInfo(group, name)?.multiPath === (index !== undefined)) {
+            reads.push({ group, endpoint: name, index });
+          }
+        }
+      }
+    }
+  }
+
+  const liveResults = await batchGet(client, reads, {
+    ...batchOptions,
+    onProgress: (done, total) => onProgress?.({ phase: "read", done, total }),
+  });
+  const live = byChannel(toShowValues(liveResults));
+  const answered = new Set(
+    liveResults
+      .filter((r) => r.status === "ok")
+      .map((r) => `${r.group}/${r.endpoint}/${indexKey(r.index)}`)
+  );
+
+  const report: ImportReport = {
+    changes: [],
+    results: [],
+    unchanged: 0,
+    recallSafed: 0,
+    notRestorable: 0,
+    noResponse: 0,
+  };
+
+  for (const [group, endpoints] of Object.entries(show.values)) {
+    for (const [endpoint, instances] of Object.entries(endpoints)) {
+      const spec = getEndpointInfo(group, endpoint);
+      const press = spec !== null && isPressable(spec, endpoint);
+      for (const [key, value] of Object.entries(instances)) {
+        const index = keyToIndex(key);
+        if (!spec || (!press && restoreSkipReason(spec, endpoint))) {
+          report.notRestorable++;
+          continue;
+        }
+        if (!answered.has(`${group}/${endpoint}/${key}`)) {
+          if (press) {
+            // Pressing blind could flip it the wrong way
+            report.results.push({
+              group,
+              endpoint,
+              index,
+              status: "error",
+              error: "current state unknown (no response)",
+            });
+          } else {
+            report.noResponse++;
+          }
+          continue;
+        }
+
+        const channel = live[group]?.[key] ?? {};
+        const current = channel[endpoint];
+        if (press ? Boolean(current) === Boolean(value) : valuesEqual(current, value)) {
+          report.unchanged++;
+          continue;
+        }
+        if (activeSafes(channel, "Recall").some((s) => s.covers.test(endpoint))) {
+          report.recallSafed++;
+          continue;
+        }
+        report.changes.push({
+          group,
+          endpoint,
+          index,
+          from: current,
+          to: value,
+          press: press ? true : undefined,
+        });
+      }
+    }
+  }
+
+  if (!dryRun && report.changes.length > 0) {
+    const writes = report.changes.filter((c) => !c.press);
+    const presses = report.changes.filter((c) => c.press);
+    const total = report.changes.length;
+    report.results.push(
+      ...(await batchSet(
+        client,
+        writes.map(({ group, endpoint, index, to }) => ({ group, endpoint, index, value: to })),
+        {
+          ...batchOptions,
+          onProgress: (done) => onProgress?.({ phase: "write", done, total }),
+        }
+      ))
+    );
+
+    const { paceMs = 10 } = batchOptions;
+    for (const [i, { group, endpoint, index, to }] of presses.entries()) {
+      if (paceMs > 0) await sleep(paceMs);
+      try {
+        await client.pressSwitch(group, endpoint, index);
+        report.results.push({ group, endpoint, index, status: "ok", value: to });
+      } catch (err) {
+        report.results.push({
+          group,
+          endpoint,
+          index,
+          status: "error",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      onProgress?.({ phase: "write", done: writes.length + i + 1, total });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+import { parseArgs } from "node:util";
+import { MidasSimulator } from "./simulator.js";
+
+// ── Options ──────────────────────────────────────────────────────────────────
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "10023" },
+    host: { type: "string", default: "0.0.0.0" },
+    "reply-port": { type: "string", default: "10024" },
+    "meter-interval": { type: "string", default: "0" },
+    "drop-rate": { type: "string", default: "0" },
+    verbose: { type: "boolean", short: "v", default: false },
+  },
+});
+
+const simulator = new MidasSimulator({
+  port: parseInt(values.port!, 10),
+  host: values.host,
+  replyPort: parseInt(values["reply-port"]!, 10),
+  meterIntervalMs: parseInt(values["meter-interval"]!, 10),
+  dropRate: parseFloat(values["drop-rate"]!),
+});
+
+if (values.verbose) {
+  simulator.on("message", ({ address, args, from }) => {
+    console.error(`[midas-sim] ${from} ${address} ${JSON.stringify(args)}`);
+  });
+}
+simulator.on("unknown", ({ address, from }) => {
+  console.error(`[midas-sim] ${from} unknown address ${address}`);
+});
+simulator.on("error", (err: Error) => {
+  console.error(`[midas-sim] ${err.message}`);
+});
+
+// ── Start ────────────────────────────────────────────────────────────────────
+
+await simulator.start();
+console.error(
+  `[midas-sim] Simulated console listening on ${values.host}:${simulator.port}, replying to port ${values["reply-port"]}`
+);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, async () => {
+    await simulator.stop();
+    process.exit(0);
+  });
+}
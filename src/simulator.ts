@@ -0,0 +1,281 @@
+import { EventEmitter } from "node:events";
+import type { RemoteInfo } from "node:dgram";
+import { Client, Message, Server } from "node-osc";
+import {
+  argumentTypeOf,
+  getEndpointInfo,
+  checkIndex,
+  parseOscPath,
+  type EndpointSpec,
+} from "./endpoints.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface SimulatorOptions {
+  /** UDP port the simulated console listens on (default: 10023) */
+  port?: number;
+  /** Interface to bind (default: 0.0.0.0) */
+  host?: string;
+  /** Port replies are sent to on the sender's address (default: 10024) */
+  replyPort?: number;
+  /** Push meter values for every queried meter at this rate (0 = off) */
+  meterIntervalMs?: number;
+  /** Meter value generator, returns a float 0-1 */
+  meterLevel?: (path: string, now: number) => number;
+  /** Fraction of incoming packets to silently drop, to mimic UDP loss (0-1) */
+  dropRate?: number;
+}
+
+export interface SimulatorMessage {
+  address: string;
+  args: unknown[];
+  from: string;
+}
+
+type SimValue = number | string;
+
+interface ParsedPath {
+  group: string;
+  endpoint: string;
+  spec: EndpointSpec;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse an OSC address of the form /messageType/group/endpoint[/index].
+ * Returns null if it does not name an endpoint in the database.
+ */
+function parseAddress(address: string): ParsedPath | null {
+  const parsed = parseOscPath(address);
+  if (!parsed) return null;
+
+  const { type, group, endpoint, index } = parsed;
+  const spec = getEndpointInfo(group, endpoint);
+  if (!spec || spec.type !== type) return null;
+  if (checkIndex(group, endpoint, index)) return null;
+  return { group, endpoint, spec };
+}
+
+function defaultValue(spec: EndpointSpec): SimValue {
+  if (spec.argumentType === "string" || spec.type === "enPPCStringMessage") {
+    return "";
+  }
+  return 0;
+}
+
+/**
+ * Slowly wandering level so meter reads look alive but stay deterministic
+ * per path.
+ */
+function defaultMeterLevel(path: string, now: number): number {
+  let seed = 0;
+  for (const ch of path) seed = (seed * 31 + ch.charCodeAt(0)) % 997;
+  return 0.5 + 0.3 * Math.sin(now / 1000 + seed);
+}
+
+// ── Simulator ────────────────────────────────────────────────────────────────
+
+/**
+ * A stand-in Midas Pro console for offline testing. Listens for OSC over UDP,
+ * keeps per-path state, answers argument-less queries with the current value
+ * and applies toggle semantics to non-absolute switches.
+ *
+ * Emits "message" for every valid incoming message, "unknown" for
+ * addresses that are not in the endpoint database and "error" when a reply
+ * cannot be sent.
+ */
+export class MidasSimulator extends EventEmitter {
+  private server: Server | null = null;
+  private replyClients: Map<string, Client> = new Map();
+  private state: Map<string, SimValue> = new Map();
+  private meterOverrides: Map<string, number> = new Map();
+  private watchedMeters: Map<string, string> = new Map();
+  private peers: Set<string> = new Set();
+  private meterTimer: NodeJS.Timeout | null = null;
+  private readonly options: Required<SimulatorOptions>;
+
+  constructor(options: SimulatorOptions = {}) {
+    super();
+    this.options = {
+      port: options.port ?? 10023,
+      host: options.host ?? "0.0.0.0",
+      replyPort: options.replyPort ?? 10024,
+      meterIntervalMs: options.meterIntervalMs ?? 0,
+      meterLevel: options.meterLevel ?? defaultMeterLevel,
+      dropRate: options.dropRate ?? 0,
+    };
+  }
+
+  get isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /** The bound UDP port (useful when started on port 0). */
+  get port(): number {
+    return this.server?.port ?? this.options.port;
+  }
+
+  /**
+   * Start listening. Resolves once the socket is bound.
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    await new Promise<void>((resolve) => {
+      this.server = new Server(this.options.port, this.options.host, resolve);
+    });
+
+    this.server!.on("message", (msg: unknown[], rinfo: RemoteInfo) => {
+      if (Math.random() < this.options.dropRate) return;
+      this.handleMessage(msg, rinfo).catch((err) => this.emit("error", err));
+    });
+
+    if (this.options.meterIntervalMs > 0) {
+      this.meterTimer = setInterval(
+        () => this.pushMeters().catch((err) => this.emit("error", err)),
+        this.options.meterIntervalMs
+      );
+    }
+  }
+
+  /**
+   * Stop listening and release all sockets.
+   */
+  async stop(): Promise<void> {
+    if (this.meterTimer) {
+      clearInterval(this.meterTimer);
+      this.meterTimer = null;
+    }
+    for (const client of this.replyClients.values()) {
+      await client.close();
+    }
+    this.replyClients.clear();
+    this.watchedMeters.clear();
+    this.peers.clear();
+    if (this.server) {
+      await this.server.close();
+      this.server = null;
+    }
+  }
+
+  /**
+   * Read the simulated value at a full OSC path.
+   */
+  getState(path: string): SimValue | undefined {
+    const parsed = parseAddress(path);
+    if (!parsed) return undefined;
+    return this.currentValue(path, parsed.spec);
+  }
+
+  /**
+   * Force a value at a full OSC path, as if changed at the desk, and push it
+   * to every client that has talked to the simulator. For meter paths this
+   * pins the meter until reset() is called.
+   */
+  async setState(path: string, value: SimValue): Promise<void> {
+    const parsed = parseAddress(path);
+    if (!parsed) {
+      throw new Error(`Unknown OSC path: ${path}`);
+    }
+
+    if (parsed.spec.type === "enPPCMeterMessage" && typeof value === "number") {
+      this.meterOverrides.set(path, value);
+    } else {
+      this.state.set(path, value);
+    }
+
+    for (const host of this.peers) {
+      await this.reply(host, path, parsed.spec);
+    }
+  }
+
+  /**
+   * Forget all state, returning every path to its default.
+   */
+  reset(): void {
+    this.state.clear();
+    this.meterOverrides.clear();
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────
+
+  private currentValue(path: string, spec: EndpointSpec): SimValue {
+    if (spec.type === "enPPCMeterMessage") {
+      const level =
+        this.meterOverrides.get(path) ??
+        this.options.meterLevel(path, Date.now());
+      return Math.max(0, Math.min(1, level));
+    }
+    return this.state.get(path) ?? defaultValue(spec);
+  }
+
+  private async handleMessage(msg: unknown[], rinfo: RemoteInfo): Promise<void> {
+    const [address, ...args] = msg as [string, ...unknown[]];
+    this.peers.add(rinfo.address);
+    const parsed = parseAddress(address);
+    if (!parsed) {
+      this.emit("unknown", { address, args, from: rinfo.address });
+      return;
+    }
+
+    const { spec } = parsed;
+    if (args.length === 0) {
+      if (spec.type === "enPPCMeterMessage") {
+        this.watchedMeters.set(address, rinfo.address);
+      }
+      await this.reply(rinfo.address, address, spec);
+    } else {
+      this.applyWrite(address, parsed.endpoint, spec, args[0]);
+    }
+
+    this.emit("message", { address, args, from: rinfo.address });
+  }
+
+  private applyWrite(path: string, endpoint: string, spec: EndpointSpec, arg: unknown): void {
+    if (spec.type === "enPPCMeterMessage") return;
+
+    if (spec.type === "enPPCSwitchMessage" && !spec.isAbsolute) {
+      // Toggle switches flip on any write regardless of the value sent
+      const current = this.state.get(path) ?? 0;
+      this.state.set(path, current ? 0 : 1);
+      return;
+    }
+
+    if (typeof arg === "number") {
+      const value =
+        argumentTypeOf(spec, endpoint) === "float" ? Math.max(0, Math.min(1, arg)) : arg;
+      this.state.set(path, value);
+    } else {
+      this.state.set(path, String(arg));
+    }
+  }
+
+  private async pushMeters(): Promise<void> {
+    for (const [path, host] of this.watchedMeters) {
+      const parsed = parseAddress(path);
+      if (parsed) {
+        await this.reply(host, path, parsed.spec);
+      }
+    }
+  }
+
+  private async reply(host: string, address: string, spec: EndpointSpec): Promise<void> {
+    let client = this.replyClients.get(host);
+    if (!client) {
+      client = new Client(host, this.options.replyPort);
+      this.replyClients.set(host, client);
+    }
+
+    const value = this.currentValue(address, spec);
+    const msg = new Message(address);
+    if (typeof value === "string") {
+      msg.append({ type: "s", value });
+    } else if (spec.argumentType === "integer" || spec.type === "enPPCSwitchMessage") {
+      msg.append({ type: "i", value: Math.round(value) });
+    } else {
+      msg.append({ type: "f", value });
+    }
+    await client.send(msg);
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  listEndpoints,
+  getEndpointInfo,
+  argumentTypeOf,
+  type EndpointSpec,
+  type OscMessageType,
+} from "./endpoints.js";
+import type { MidasOscClient } from "./osc-client.js";
+import {
+  batchGet,
+  batchSet,
+  type BatchOptions,
+  type BatchResult,
+  type BatchSetItem,
+} from "./batch.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotValue {
+  type: OscMessageType;
+  value: number | string;
+}
+
+/**
+ * Every settable parameter of one channel, as read from the console.
+ */
+export interface ChannelSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  kind: "channel";
+  group: string;
+  index: number;
+  label?: string;
+  takenAt: string;
+  values: Record<string, SnapshotValue>;
+  /** Endpoints that did not answer while the snapshot was taken */
+  missing: string[];
+}
+
+export interface RestoreReport {
+  results: BatchResult[];
+  /** Endpoints left alone because they can't be set absolutely */
+  skipped: { endpoint: string; reason: string }[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Whether a value can be written back verbatim. Meters are read-only and
+ * toggle switches flip rather than set, so neither can be restored.
+ */
+export function restoreSkipReason(spec: EndpointSpec, endpoint: string): string | null {
+  if (spec.type === "enPPCMeterMessage") return "read-only meter";
+  if (argumentTypeOf(spec, endpoint) === null) return "read-only";
+  if (spec.type === "enPPCSwitchMessage" && !spec.isAbsolute) {
+    return "toggle-only switch";
+  }
+  return null;
+}
+
+/**
+ * Endpoints that belong to a single channel and hold state worth saving.
+ */
+function channelEndpoints(group: string): string[] {
+  const endpoints = listEndpoints(group);
+  if (!endpoints) {
+    throw new Error(`Group "${group}" not found.`);
+  }
+  return endpoints
+    .filter(({ spec }) => spec.multiPath && spec.type !== "enPPCMeterMessage")
+    .map(({ endpoint }) => endpoint);
+}
+
+/**
+ * Check that a parsed document is a channel snapshot this build understands.
+ */
+export function validateChannelSnapshot(doc: unknown): ChannelSnapshot {
+  const snap = doc as Partial<ChannelSnapshot> | null;
+  if (!snap || snap.kind !== "channel") {
+    throw new Error("Not a channel snapshot.");
+  }
+  if (snap.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${snap.version} (expected ${SNAPSHOT_VERSION}).`
+    );
+  }
+  if (typeof snap.group !== "string" || typeof snap.index !== "number" || !snap.values) {
+    throw new Error("Snapshot is missing group, index or values.");
+  }
+  return snap as ChannelSnapshot;
+}
+
+// ── Snapshot / Restore ───────────────────────────────────────────────────────
+
+/**
+ * Read every stateful endpoint of one channel into a snapshot document.
+ */
+export async function snapshotChannel(
+  client: MidasOscClient,
+  group: string,
+  index: number,
+  options: BatchOptions = {}
+): Promise<ChannelSnapshot> {
+  const items = channelEndpoints(group).map((endpoint) => ({
+    group,
+    endpoint,
+    index,
+  }));
+  const results = await batchGet(client, items, options);
+
+  const values: Record<string, SnapshotValue> = {};
+  const missing: string[] = [];
+  for (const r of results) {
+    const spec = getEndpointInfo(group, r.endpoint)!;
+    if (r.status === "ok" && (typeof r.value === "number" || typeof r.value === "string")) {
+      values[r.endpoint] = { type: spec.type, value: r.value };
+    } else {
+      missing.push(r.endpoint);
+    }
+  }
+
+  const label = values.enPathname?.value;
+  return {
+    version: SNAPSHOT_VERSION,
+    kind: "channel",
+    group,
+    index,
+    label: typeof label === "string" && label.length > 0 ? label : undefined,
+    takenAt: new Date().toISOString(),
+    values,
+    missing,
+  };
+}
+
+/**
+ * Write a channel snapshot back to the console, to the same channel or a
+ * different index in the same group.
+ */
+export async function restoreChannel(
+  client: MidasOscClient,
+  snapshot: ChannelSnapshot,
+  targetIndex = snapshot.index,
+  options: BatchOptions = {}
+): Promise<RestoreReport> {
+  const items: BatchSetItem[] = [];
+  const skipped: RestoreReport["skipped"] = [];
+
+  for (const [endpoint, { value }] of Object.entries(snapshot.values)) {
+    const spec = getEndpointInfo(snapshot.group, endpoint);
+    if (!spec) {
+      skipped.push({ endpoint, reason: "not in endpoint database" });
+      continue;
+    }
+    const reason = restoreSkipReason(spec, endpoint);
+    if (reason) {
+      skipped.push({ endpoint, reason });
+      continue;
+    }
+    items.push({ group: snapshot.group, endpoint, index: targetIndex, value });
+  }
+
+  const results = await batchSet(client, items, options);
+  return { results, skipped };
+}
@@ -0,0 +1,350 @@
+import { buildOscPath, getEndpointInfo, listEndpoints } from "./endpoints.js";
+import type { MidasOscClient, PendingWrite } from "./osc-client.js";
+import {
+  batchGet,
+  parseIndexList,
+  type BatchItem,
+  type BatchOptions,
+  type BatchResult,
+} from "./batch.js";
+import { monitorMeters, type MeterOptions } from "./meters.js";
+import { METER_FLOOR_DBFS } from "./units.js";
+import { safetyEngine } from "./safety.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** Socket layout of one stage box model, worked out from the endpoint database */
+export interface StageboxModel {
+  name: string;
+  group: string;
+  inputs: number;
+  outputs: number;
+  /** Whether the box has per-socket +48 V switches */
+  phantom: boolean;
+  /** Number of MIDI ports with enable flags */
+  midiPorts: number;
+}
+
+/** State of one input socket; sockets are numbered from 1 as on the box */
+export interface StageboxInput {
+  socket: number;
+  /** +48 V on, or null if unknown or not switchable */
+  phantom: boolean | null;
+  /** Peak level over the measuring window in dBFS, null if no meter reply */
+  peakDb: number | null;
+  signal: boolean | null;
+}
+
+export interface StageboxMeter {
+  socket: number;
+  direction: "input" | "output";
+  currentDb: number | null;
+  peakDb: number | null;
+  rmsDb: number | null;
+}
+
+// ── Models ───────────────────────────────────────────────────────────────────
+
+const MODEL_GROUPS: Record<string, string> = {
+  DL151: "enVirtualDL151CPU",
+  DL251: "enVirtualDL251CPU",
+  DL351: "enVirtualDL351CPU",
+};
+
+/** Peak level above which a socket counts as carrying signal */
+export const SIGNAL_THRESHOLD_DB = -50;
+
+/** How long meters are watched to decide whether signal is present */
+const SIGNAL_WINDOW_MS = 500;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function countNumbered(names: string[], pattern: RegExp): number {
+  return names.filter((n) => pattern.test(n)).length;
+}
+
+/**
+ * Look up a stage box model by name ("DL251", "dl251") or control group.
+ */
+export function getStageboxModel(name: string): StageboxModel {
+  const wanted = name.trim().toUpperCase();
+  const entry = Object.entries(MODEL_GROUPS).find(
+    ([model, group]) => model === wanted || group.toUpperCase() === wanted
+  );
+  if (!entry) {
+    throw new Error(
+      `Unknown stage box "${name}". Known models: ${Object.keys(MODEL_GROUPS).join(", ")}.`
+    );
+  }
+
+  const [model, group] = entry;
+  const names = (listEndpoints(group) ?? []).map((e) => e.endpoint);
+  return {
+    name: model,
+    group,
+    inputs: countNumbered(names, /^enInputMeter_\d+$/),
+    outputs: countNumbered(names, /^enOutputMeter_\d+$/),
+    phantom: names.some((n) => /^enPhantomPower\d+$/.test(n)),
+    midiPorts: countNumbered(names, /^enMIDIRxDisable\d+$/),
+  };
+}
+
+export function listStageboxModels(): StageboxModel[] {
+  return Object.keys(MODEL_GROUPS).map(getStageboxModel);
+}
+
+/**
+ * Parse a socket list such as "1-8, 12" (1-based). Omitted means every
+ * socket.
+ */
+export function parseSockets(spec: string | undefined, count: number): number[] {
+  if (spec === undefined) return Array.from({ length: count }, (_, i) => i + 1);
+  const sockets = parseIndexList(spec);
+  const bad = sockets.find((s) => s < 1 || s > count);
+  if (bad !== undefined) {
+    throw new Error(`There is no socket ${bad} (1-${count}).`);
+  }
+  if (sockets.length === 0) throw new Error("No sockets given.");
+  return sockets;
+}
+
+function meterItem(
+  model: StageboxModel,
+  box: number,
+  socket: number,
+  direction: StageboxMeter["direction"]
+): BatchItem {
+  const endpoint = direction === "input" ? `enInputMeter_${socket}` : `enOutputMeter_${socket}`;
+  return { group: model.group, endpoint, index: box };
+}
+
+function phantomItem(model: StageboxModel, box: number, socket: number): BatchItem {
+  return { group: model.group, endpoint: `enPhantomPower${socket}`, index: box };
+}
+
+/** The write that switches a socket's phantom power on */
+function phantomOnWrite(model: StageboxModel, box: number, socket: number): PendingWrite {
+  const { group, endpoint, index } = phantomItem(model, box, socket);
+  return {
+    group,
+    endpoint,
+    index,
+    path: buildOscPath(group, endpoint, index)!,
+    value: 1,
+    spec: getEndpointInfo(group, endpoint)!,
+  };
+}
+
+// ── Read ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Watch socket meters for a while and return current, peak and RMS levels.
+ */
+export async function readStageboxMeters(
+  client: MidasOscClient,
+  model: StageboxModel,
+  box: number,
+  sockets: { socket: number; direction: StageboxMeter["direction"] }[],
+  options: MeterOptions = {}
+): Promise<StageboxMeter[]> {
+  const frame = await monitorMeters(
+    client,
+    sockets.map((s) => meterItem(model, box, s.socket, s.direction)),
+    options
+  );
+  return frame.readings.map((r, i) => ({
+    ...sockets[i],
+    currentDb: r.current,
+    peakDb: r.peak,
+    rmsDb: r.rms,
+  }));
+}
+
+/**
+ * Read phantom power state and signal presence for input sockets.
+ */
+export async function readStageboxInputs(
+  client: MidasOscClient,
+  model: StageboxModel,
+  box: number,
+  sockets: number[],
+  options: { windowMs?: number; thresholdDb?: number } & BatchOptions = {}
+): Promise<StageboxInput[]> {
+  const { windowMs = SIGNAL_WINDOW_MS, thresholdDb = SIGNAL_THRESHOLD_DB, ...batch } = options;
+
+  let phantom: BatchResult[] = [];
+  if (model.phantom) {
+    phantom = await batchGet(
+      client,
+      sockets.map((s) => phantomItem(model, box, s)),
+      batch
+    );
+  }
+  const meters = await readStageboxMeters(
+    client,
+    model,
+    box,
+    sockets.map((socket) => ({ socket, direction: "input" as const })),
+    { durationMs: windowMs }
+  );
+
+  return sockets.map((socket, i) => {
+    const p = phantom[i];
+    const peakDb = meters[i].peakDb;
+    return {
+      socket,
+      phantom: p?.status === "ok" && typeof p.value === "number" ? p.value !== 0 : null,
+      peakDb,
+      signal: peakDb === null ? null : peakDb > thresholdDb,
+    };
+  });
+}
+
+// ── Phantom power ────────────────────────────────────────────────────────────
+
+function approveLiveSocket(model: StageboxModel, box: number, input: StageboxInput): boolean {
+  const reason =
+    input.peakDb === null
+      ? `no meter reading on socket ${input.socket}, it may carry signal`
+      : `signal present on socket ${input.socket} (peak ${input.peakDb.toFixed(1)} dBFS); +48 V can damage line-level sources and ribbon mics`;
+  return safetyEngine.requireConfirmation(
+    phantomOnWrite(model, box, input.socket),
+    reason,
+    "phantom-live-signal"
+  );
+}
+
+export interface PhantomReport {
+  changed: number[];
+  unchanged: number[];
+  /**
+   * Sockets left off because they carry signal, or their meter did not
+   * answer; they are pending confirmation with the safety engine
+   */
+  blocked: StageboxInput[];
+  /** Sockets whose state could not be read, or whose switch failed */
+  failed: BatchResult[];
+}
+
+/**
+ * Switch +48 V on or off for some input sockets. The switches toggle, so
+ * the current state is read first: sockets already in the wanted state
+ * are left alone and sockets whose state is unknown are reported as
+ * failed and never pressed. Sockets that currently carry signal are
+ * not switched on without confirmation: a line-level source or a ribbon
+ * mic there could be damaged, and the switch thumps the PA. A socket whose
+ * meter does not answer is treated as carrying signal. Confirmation goes
+ * through the safety engine, so the caller must run this inside
+ * withConfirmation to let a confirmed token through.
+ */
+export async function setPhantom(
+  client: MidasOscClient,
+  model: StageboxModel,
+  box: number,
+  sockets: number[],
+  on: boolean,
+  options: { windowMs?: number; thresholdDb?: number } & BatchOptions = {}
+): Promise<PhantomReport> {
+  if (!model.phantom) {
+    throw new Error(`The ${model.name} has no switchable phantom power in the endpoint database.`);
+  }
+
+  const inputs = await readStageboxInputs(client, model, box, sockets, options);
+  const report: PhantomReport = { changed: [], unchanged: [], blocked: [], failed: [] };
+
+  const toSwitch: number[] = [];
+  for (const input of inputs) {
+    if (input.phantom === null) {
+      report.failed.push({
+        ...phantomItem(model, box, input.socket),
+        status: "error",
+        error: "current state unknown (no response)",
+      });
+    } else if (input.phantom === on) {
+      report.unchanged.push(input.socket);
+    } else if (on && input.signal !== false && !approveLiveSocket(model, box, input)) {
+      report.blocked.push(input);
+    } else {
+      toSwitch.push(input.socket);
+    }
+  }
+
+  const { paceMs = 10 } = options;
+  for (const [i, socket] of toSwitch.entries()) {
+    const item = phantomItem(model, box, socket);
+    try {
+      if (i > 0 && paceMs > 0) await sleep(paceMs);
+      await client.pressSwitch(item.group, item.endpoint, item.index);
+      report.changed.push(socket);
+    } catch (err) {
+      report.failed.push({
+        ...item,
+        status: "error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return report;
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+function formatDb(db: number | null): string {
+  if (db === null) return "—";
+  if (db <= METER_FLOOR_DBFS) return "-inf";
+  return db.toFixed(1);
+}
+
+/**
+ * Render socket numbers compactly: 1-4, 7, 9-12.
+ */
+export function formatSocketList(sockets: number[]): string {
+  const parts: string[] = [];
+  for (let i = 0; i < sockets.length; i++) {
+    let j = i;
+    while (j + 1 < sockets.length && sockets[j + 1] === sockets[j] + 1) j++;
+    parts.push(j > i ? `${sockets[i]}-${sockets[j]}` : String(sockets[i]));
+    i = j;
+  }
+  return parts.join(", ");
+}
+
+export function formatStageboxInputs(
+  model: StageboxModel,
+  box: number,
+  inputs: StageboxInput[]
+): string {
+  const lines = [
+    `${model.name} box ${box}: ${inputs.length} input socket${inputs.length === 1 ? "" : "s"}`,
+    `  ${"Socket".padEnd(7)} ${"+48V".padEnd(5)} ${"Peak".padStart(7)}  Signal`,
+    `  ${"─".repeat(30)}`,
+  ];
+  for (const input of inputs) {
+    const phantom =
+      !model.phantom ? "n/a" : input.phantom === null ? "?" : input.phantom ? "ON" : "off";
+    const signal = input.signal === null ? "no meter" : input.signal ? "yes" : "";
+    lines.push(
+      `  ${String(input.socket).padEnd(7)} ${phantom.padEnd(5)} ${formatDb(input.peakDb).padStart(7)}  ${signal}`
+    );
+  }
+  return lines.join("\n");
+}
+
+export function formatStageboxMeters(
+  model: StageboxModel,
+  box: number,
+  meters: StageboxMeter[]
+): string {
+  const lines = [
+    `${model.name} box ${box} meters (dBFS)`,
+    `  ${"Socket".padEnd(12)} ${"Now".padStart(7)} ${"Peak".padStart(7)} ${"RMS".padStart(7)}`,
+    `  ${"─".repeat(36)}`,
+  ];
+  for (const m of meters) {
+    const socket = `${m.direction === "input" ? "In" : "Out"} ${m.socket}`;
+    lines.push(
+      `  ${socket.padEnd(12)} ${formatDb(m.currentDb).padStart(7)} ${formatDb(m.peakDb).padStart(7)} ${formatDb(m.rmsDb).padStart(7)}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,176 @@
+import { parseOscPath } from "./endpoints.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface StateEntry {
+  address: string;
+  group: string;
+  endpoint: string;
+  index?: number;
+  args: unknown[];
+  timestamp: number;
+  /** "console" for messages received from the desk, "local" for values we sent */
+  origin: "console" | "local";
+}
+
+/** Mirrored console state: group → endpoint → index ("-" when unindexed). */
+export type StateTree = Record<string, Record<string, Record<string, StateEntry>>>;
+
+export type StateListener = (entry: StateEntry, previous: StateEntry | null) => void;
+
+interface Subscription {
+  pattern: string;
+  matcher: RegExp;
+  listener: StateListener;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const UNINDEXED = "-";
+
+/**
+ * Compile an OSC path glob into a regex. `*` matches within one path segment,
+ * `**` across segments, `?` a single character.
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Key for an index in the state tree; unindexed endpoints use "-".
+ */
+export function indexKey(index: number | undefined): string {
+  return index === undefined ? UNINDEXED : String(index);
+}
+
+// ── State Cache ──────────────────────────────────────────────────────────────
+
+/**
+ * Mirror of console state built from every OSC message seen, with
+ * path/glob subscriptions for change notification.
+ */
+export class ConsoleStateCache {
+  private tree: StateTree = {};
+  private subscriptions: Set<Subscription> = new Set();
+
+  /**
+   * Record a message. Returns the stored entry, or null if the address is
+   * not a console path.
+   */
+  update(
+    address: string,
+    args: unknown[],
+    origin: StateEntry["origin"] = "console"
+  ): StateEntry | null {
+    const parsed = parseOscPath(address);
+    if (!parsed) return null;
+
+    const { group, endpoint, index } = parsed;
+    const endpoints = (this.tree[group] ??= {});
+    const instances = (endpoints[endpoint] ??= {});
+    const key = indexKey(index);
+
+    const previous = instances[key] ?? null;
+    const entry: StateEntry = {
+      address,
+      group,
+      endpoint,
+      index,
+      args,
+      timestamp: Date.now(),
+      origin,
+    };
+    instances[key] = entry;
+
+    for (const sub of this.subscriptions) {
+      if (sub.matcher.test(address)) {
+        try {
+          sub.listener(entry, previous);
+        } catch (err) {
+          console.error(
+            `[midas-pro] State listener for ${sub.pattern} failed: ${err instanceof Error ? err.message : err}`
+          );
+        }
+      }
+    }
+    return entry;
+  }
+
+  /**
+   * Get the cached entry for a parameter, optionally only if newer than
+   * maxAgeMs.
+   */
+  get(
+    group: string,
+    endpoint: string,
+    index?: number,
+    maxAgeMs?: number
+  ): StateEntry | null {
+    const entry = this.tree[group]?.[endpoint]?.[indexKey(index)] ?? null;
+    if (!entry) return null;
+    if (maxAgeMs !== undefined && Date.now() - entry.timestamp > maxAgeMs) {
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Get every cached entry whose address matches a glob.
+   */
+  query(pattern: string): StateEntry[] {
+    const matcher = compilePathPattern(pattern);
+    const results: StateEntry[] = [];
+    for (const endpoints of Object.values(this.tree)) {
+      for (const instances of Object.values(endpoints)) {
+        for (const entry of Object.values(instances)) {
+          if (matcher.test(entry.address)) results.push(entry);
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Read-only view of the whole state tree.
+   */
+  snapshot(): Readonly<StateTree> {
+    return this.tree;
+  }
+
+  /**
+   * Listen for updates to paths matching a glob (e.g.
+   * "/*\/enVirtualMicInputs/enFaderLevel/*"). Returns an unsubscribe function.
+   */
+  subscribe(pattern: string, listener: StateListener): () => void {
+    const sub: Subscription = {
+      pattern,
+      matcher: compilePathPattern(pattern),
+      listener,
+    };
+    this.subscriptions.add(sub);
+    return () => {
+      this.subscriptions.delete(sub);
+    };
+  }
+
+  /**
+   * Drop all cached state. Subscriptions are kept.
+   */
+  clear(): void {
+    this.tree = {};
+  }
+}
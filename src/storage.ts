@@ -0,0 +1,105 @@
+import {
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  appendFileSync,
+  readdirSync,
+  existsSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+
+// ── Local data directory ─────────────────────────────────────────────────────
+
+/**
+ * Root directory for files the server writes (snapshots, show files, ...).
+ * Set MIDAS_DATA_DIR to override; defaults to ~/.midas-pro.
+ */
+export function getDataDir(): string {
+  const configured = process.env.MIDAS_DATA_DIR;
+  return configured && configured.length > 0
+    ? resolve(configured)
+    : join(homedir(), ".midas-pro");
+}
+
+/**
+ * Get (and create) a subdirectory of the data directory.
+ */
+export function getStoreDir(kind: string): string {
+  const dir = join(getDataDir(), kind);
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * Turn a user-supplied name into a safe file name.
+ */
+export function safeName(name: string): string {
+  const cleaned = name.trim().replace(/[^\w.-]+/g, "_").replace(/^\.+/, "");
+  if (!cleaned) {
+    throw new Error(`Invalid name "${name}"`);
+  }
+  return cleaned;
+}
+
+/**
+ * Path of a named JSON document in a store.
+ */
+export function storePath(kind: string, name: string): string {
+  return join(getStoreDir(kind), `${safeName(name)}.json`);
+}
+
+/**
+ * Find a named document in the first of several stores that has it.
+ */
+export function findInStores(
+  kinds: string[],
+  name: string
+): { kind: string; path: string } | null {
+  for (const kind of kinds) {
+    const path = storePath(kind, name);
+    if (existsSync(path)) return { kind, path };
+  }
+  return null;
+}
+
+// ── JSON documents ───────────────────────────────────────────────────────────
+
+export function writeJsonFile(path: string, data: unknown): void {
+  writeFileSync(path, JSON.stringify(data, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Append one record to a JSON Lines file, creating it if needed.
+ */
+export function appendJsonLine(path: string, data: unknown): void {
+  appendFileSync(path, JSON.stringify(data) + "\n", "utf-8");
+}
+
+/**
+ * Read every record of a JSON Lines file; a missing file has none.
+ */
+export function readJsonLines<T>(path: string): T[] {
+  if (!existsSync(path)) return [];
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as T);
+}
+
+export function readJsonFile<T>(path: string): T {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  return JSON.parse(readFileSync(path, "utf-8")) as T;
+}
+
+/**
+ * List the names of all JSON documents in a store.
+ */
+export function listStore(kind: string): string[] {
+  return readdirSync(getStoreDir(kind))
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length))
+    .sort();
+}
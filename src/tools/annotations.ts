@@ -0,0 +1,103 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  annotationsPath,
+  exportAnnotationsUpstream,
+  loadAnnotations,
+  saveAnnotation,
+  type AnnotationsFile,
+} from "../endpoints.js";
+import { errorResult } from "./util.js";
+
+/**
+ * Register the endpoint annotation tools on the MCP server.
+ */
+export function registerAnnotationTools(server: McpServer): void {
+  // ── annotate_endpoint ────────────────────────────────────────────────────
+
+  server.tool(
+    "annotate_endpoint",
+    "Record what you have learned about an endpoint on a real console: a description, unit and calibration, switch options, the firmware it was verified on, and notes. Annotations are saved locally, layered over the endpoint database straight away, and can be shared with export_annotations.",
+    {
+      group: z.string().describe("Control group name"),
+      endpoint: z.string().describe("Endpoint/parameter name within the group"),
+      description: z.string().optional().describe("What the endpoint does"),
+      unit: z
+        .enum(["dB", "Hz", "ms", "ratio", "%"])
+        .optional()
+        .describe("Engineering unit of the value"),
+      range: z
+        .object({ min: z.number(), max: z.number() })
+        .optional()
+        .describe("Usable range, in unit if set"),
+      breakpoints: z
+        .array(z.object({ raw: z.number(), value: z.number() }))
+        .optional()
+        .describe("Calibration points mapping raw 0-1 floats to unit values"),
+      options: z
+        .array(z.string())
+        .optional()
+        .describe("Labels for a cycling switch, in the order the console steps through them"),
+      verified_firmware: z
+        .string()
+        .optional()
+        .describe('Firmware version this was checked on (e.g. "1.14"); added to earlier ones'),
+      notes: z.string().optional().describe("Free-form notes; replaces earlier notes"),
+    },
+    async ({ group, endpoint, verified_firmware, ...fields }) => {
+      try {
+        const annotation = saveAnnotation(group, endpoint, {
+          ...fields,
+          verifiedOn: verified_firmware ? [verified_firmware] : undefined,
+        });
+        const recorded = Object.keys(annotation).filter((k) => k !== "updatedAt");
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Annotated ${group}/${endpoint} (${recorded.join(", ")}) in ${annotationsPath()}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── export_annotations ───────────────────────────────────────────────────
+
+  server.tool(
+    "export_annotations",
+    'Export local endpoint annotations to share. "annotations" gives the annotations file as is; "upstream" rewrites it as patches to the shipped data files (descriptions for the endpoint database, units and calibration for the metadata overlay), keyed by file name.',
+    {
+      format: z
+        .enum(["annotations", "upstream"])
+        .optional()
+        .default("annotations")
+        .describe("Output format (default: annotations)"),
+      group: z.string().optional().describe("Only export this control group"),
+    },
+    async ({ format, group }) => {
+      try {
+        let data: unknown;
+        if (format === "upstream") {
+          data = exportAnnotationsUpstream(group);
+        } else {
+          const file = loadAnnotations();
+          const groups: AnnotationsFile["groups"] = group
+            ? file.groups[group]
+              ? { [group]: file.groups[group] }
+              : {}
+            : file.groups;
+          data = { ...file, groups };
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
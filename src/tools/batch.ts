@@ -0,0 +1,152 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { getGroupNames } from "../endpoints.js";
+import {
+  parseIndexList,
+  expandItems,
+  batchGet,
+  batchSet,
+  formatBatchResults,
+} from "../batch.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the batch read and write tools on the MCP server.
+ */
+export function registerBatchTools(server: McpServer): void {
+  // ── batch_get ────────────────────────────────────────────────────────────
+
+  server.tool(
+    "batch_get",
+    "Read several endpoints across a range of channels in one call (e.g. fader and mute for inputs 0-23). Queries are paced so the console isn't flooded. Returns a per-item table including timeouts and failures.",
+    {
+      group: z.string().describe("Control group name (e.g. enVirtualMicInputs)"),
+      endpoints: z
+        .array(z.string())
+        .min(1)
+        .describe("Endpoint names to read for each channel"),
+      indices: z
+        .string()
+        .optional()
+        .describe('0-based channel indices, as a list and/or ranges (e.g. "0-23" or "0,4,8-11"). Ignored for non-indexed endpoints.'),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Per-query timeout in ms"),
+    },
+    async ({ group, endpoints, indices, pace_ms, timeout_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+      if (!getGroupNames().includes(group)) {
+        return errorResult(new Error(`Group "${group}" not found.`));
+      }
+
+      try {
+        const items = expandItems(group, endpoints, parseIndexList(indices ?? ""));
+        if (items.length === 0) {
+          throw new Error("Nothing to read. Give indices for indexed endpoints.");
+        }
+        const results = await batchGet(midasClient, items, {
+          paceMs: pace_ms,
+          timeoutMs: timeout_ms,
+        });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Batch read: ${group}\n${formatBatchResults(results)}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── batch_set ────────────────────────────────────────────────────────────
+
+  server.tool(
+    "batch_set",
+    "Set several endpoints across a range of channels in one call (e.g. pull inputs 0-23 faders to -10 dB). Messages are paced so the console isn't flooded. Returns a per-item result table. Writes are checked against the safety policy; held-back writes come with a confirmation token.",
+    {
+      group: z.string().describe("Control group name"),
+      endpoints: z
+        .array(z.string())
+        .min(1)
+        .describe("Endpoint names to set for each channel"),
+      indices: z
+        .string()
+        .optional()
+        .describe('0-based channel indices, as a list and/or ranges (e.g. "0-23"). Ignored for non-indexed endpoints.'),
+      value: z
+        .union([z.number(), z.string()])
+        .optional()
+        .describe('Value applied to every item. Float 0-1, a unit string like "-6 dB", 0/1 for switches, or a label.'),
+      values: z
+        .array(z.union([z.number(), z.string()]))
+        .optional()
+        .describe("Per-channel values in the same order as the expanded indices (overrides value)"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ group, endpoints, indices, value, values, pace_ms, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+      if (!getGroupNames().includes(group)) {
+        return errorResult(new Error(`Group "${group}" not found.`));
+      }
+      if (value === undefined && values === undefined) {
+        return errorResult(new Error("Provide either value or values."));
+      }
+
+      return confirmable("batch_set", confirm_token, async () => {
+        try {
+          const indexList = parseIndexList(indices ?? "");
+          if (values && values.length !== indexList.length) {
+            throw new Error(
+              `Got ${values.length} values for ${indexList.length} indices.`
+            );
+          }
+
+          const items = expandItems(group, endpoints, indexList).map((item) => ({
+            ...item,
+            value:
+              values && item.index !== undefined
+                ? values[indexList.indexOf(item.index)]
+                : value ?? values![0],
+          }));
+          if (items.length === 0) {
+            throw new Error("Nothing to set. Give indices for indexed endpoints.");
+          }
+          const results = await batchSet(midasClient, items, { paceMs: pace_ms });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Batch write: ${group}\n${formatBatchResults(results)}`,
+              },
+            ],
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
@@ -2,6 +2,16 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { midasClient } from "../osc-client.js";
 import { getEndpointInfo, buildOscPath } from "../endpoints.js";
+import { formatRaw, resolveValue } from "../units.js";
+import { resolveTarget, formatResolved } from "../channels.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+
+const channelShape = z
+  .string()
+  .optional()
+  .describe(
+    'Human channel reference instead of group + index: a 1-based number ("input 5", "aux return 3", "submix 2", "master L") or a channel label on the console ("Vocal 1")'
+  );
 
 /**
  * Register all Phase 2 live-control tools on the MCP server.
@@ -11,7 +21,7 @@ export function registerControlTools(server: McpServer): void {
 
   server.tool(
     "connect",
-    "Connect to a Midas Pro Series console on the network. You must connect before using get_value or set_value. Requires the console's IP address. Default OSC port is 10023.",
+    "Connect to a Midas Pro Series console on the network. You must connect before using get_value or set_value. Requires the console's IP address. Default OSC port is 10023. With dry_run, writes are encoded and recorded instead of sent, to preview changes and replay them later.",
     {
       ip: z.string().describe("IP address of the Midas console (e.g. 192.168.1.100)"),
       port: z
@@ -26,15 +36,22 @@ export function registerControlTools(server: McpServer): void {
         .optional()
         .default(10024)
         .describe("Local port for receiving responses (default: 10024)"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("Record writes instead of sending them (default: MIDAS_DRY_RUN env var, else false)"),
     },
-    async ({ ip, port, listen_port }) => {
+    async ({ ip, port, listen_port, dry_run }) => {
       try {
-        await midasClient.connect(ip, port, listen_port);
+        await midasClient.connect(ip, port, listen_port, { dryRun: dry_run });
+        const dryRun = midasClient.isDryRun
+          ? "\nDRY RUN: writes are recorded, not sent. Review with get_dry_run."
+          : "";
         return {
           content: [
             {
               type: "text" as const,
-              text: `Connected to Midas console at ${ip}:${port}\nListening for responses on port ${listen_port}`,
+              text: `Connected to Midas console at ${ip}:${port}\nListening for responses on port ${listen_port}${dryRun}`,
             },
           ],
         };
@@ -90,7 +107,7 @@ export function registerControlTools(server: McpServer): void {
         content: [
           {
             type: "text" as const,
-            text: `Connected to ${info.ip}:${info.port}\nListening on port ${info.listenPort}`,
+            text: `Connected to ${info.ip}:${info.port}\nListening on port ${info.listenPort}${info.dryRun ? `\nDry run: ${midasClient.recorded.length} write(s) recorded, none sent` : ""}`,
           },
         ],
       };
@@ -101,9 +118,12 @@ export function registerControlTools(server: McpServer): void {
 
   server.tool(
     "get_value",
-    "Read the current value of a parameter from the connected Midas console. Sends an OSC query and waits for the response. Works for all endpoint types including meters.",
+    "Read the current value of a parameter from the connected Midas console. Sends an OSC query and waits for the response. Works for all endpoint types including meters. Returns the raw value and, where the endpoint has a known unit mapping, the value in dB/Hz/ms. The channel can be given as group + 0-based index or as a human reference (channel).",
     {
-      group: z.string().describe("Control group name (e.g. enVirtualMicInputs)"),
+      group: z
+        .string()
+        .optional()
+        .describe("Control group name (e.g. enVirtualMicInputs). Optional when channel is given."),
       endpoint: z.string().describe("Endpoint/parameter name"),
       index: z
         .number()
@@ -111,8 +131,15 @@ export function registerControlTools(server: McpServer): void {
         .min(0)
         .optional()
         .describe("Channel/instance index (0-based) for multi-path endpoints"),
+      channel: channelShape,
+      max_age_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Accept a cached value up to this old (ms) instead of querying the console"),
     },
-    async ({ group, endpoint, index }) => {
+    async ({ endpoint, max_age_ms, ...target }) => {
       if (!midasClient.isConnected) {
         return {
           content: [
@@ -126,7 +153,10 @@ export function registerControlTools(server: McpServer): void {
       }
 
       try {
-        const response = await midasClient.getValue(group, endpoint, index);
+        const { group, index, resolved } = await resolveTarget(target, midasClient);
+        const response = await midasClient.getValue(group, endpoint, index, {
+          maxAgeMs: max_age_ms,
+        });
         const path = buildOscPath(group, endpoint, index);
 
         if (!response) {
@@ -140,16 +170,18 @@ export function registerControlTools(server: McpServer): void {
           };
         }
 
+        const lines = [
+          ...(resolved ? [formatResolved(resolved)] : []),
+          `Path: ${response.address}`,
+          `Value: ${JSON.stringify(response.args)}`,
+        ];
+        const human = formatRaw(group, endpoint, response.args[0]);
+        if (human) {
+          lines.push(`Human: ${human}`);
+        }
+
         return {
-          content: [
-            {
-              type: "text" as const,
-              text: [
-                `Path: ${response.address}`,
-                `Value: ${JSON.stringify(response.args)}`,
-              ].join("\n"),
-            },
-          ],
+          content: [{ type: "text" as const, text: lines.join("\n") }],
         };
       } catch (err) {
         return {
@@ -169,14 +201,17 @@ export function registerControlTools(server: McpServer): void {
 
   server.tool(
     "set_value",
-    "Set a parameter value on the connected Midas console. Sends an OSC message with the appropriate argument type. Float values are clamped to 0-1 range. DANGEROUS commands (reboot, reset) are blocked and flagged.",
+    "Set a parameter value on the connected Midas console. Sends an OSC message with the appropriate argument type. Float values are clamped to 0-1 range, or can be given in engineering units (e.g. \"-6 dB\", \"2.5 kHz\", \"20 ms\") for endpoints with a known unit mapping. Writes are checked against the safety policy; if one needs confirmation, the reply carries a token to repeat the call with once the user agrees. The channel can be given as group + 0-based index or as a human reference (channel).",
     {
-      group: z.string().describe("Control group name"),
+      group: z
+        .string()
+        .optional()
+        .describe("Control group name. Optional when channel is given."),
       endpoint: z.string().describe("Endpoint/parameter name"),
       value: z
         .union([z.number(), z.string()])
         .describe(
-          "Value to set. Float 0-1 for faders/rotaries, 0 or 1 for switches, string for labels."
+          "Value to set. Float 0-1 for faders/rotaries (or a unit string like \"-6 dB\"), 0 or 1 for switches, string for labels."
         ),
       index: z
         .number()
@@ -184,8 +219,10 @@ export function registerControlTools(server: McpServer): void {
         .min(0)
         .optional()
         .describe("Channel/instance index (0-based) for multi-path endpoints"),
+      channel: channelShape,
+      confirm_token: confirmTokenShape,
     },
-    async ({ group, endpoint, value, index }) => {
+    async ({ endpoint, value, confirm_token, ...target }) => {
       if (!midasClient.isConnected) {
         return {
           content: [
@@ -198,55 +235,46 @@ export function registerControlTools(server: McpServer): void {
         };
       }
 
-      // Safety gate for dangerous commands
-      if (midasClient.isDangerous(endpoint)) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `BLOCKED: "${endpoint}" is a potentially destructive command (could reboot or reset the console). This command requires manual confirmation. If you really intend to do this, please confirm explicitly.`,
-            },
-          ],
-          isError: true,
-        };
-      }
+      return confirmable("set_value", confirm_token, async () => {
+        try {
+          const { group, index, resolved } = await resolveTarget(target, midasClient);
+          const spec = getEndpointInfo(group, endpoint);
+          if (!spec) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Endpoint "${endpoint}" not found in group "${group}".`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const { raw, display } = resolveValue(group, endpoint, value);
+          await midasClient.setValue(group, endpoint, raw, index);
+          const path = buildOscPath(group, endpoint, index);
 
-      try {
-        const spec = getEndpointInfo(group, endpoint);
-        if (!spec) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Endpoint "${endpoint}" not found in group "${group}".`,
+                text: `${resolved ? `${formatResolved(resolved)}\n` : ""}${midasClient.isDryRun ? "Recorded" : "Sent"}: ${path} = ${JSON.stringify(raw)}${display ? ` (${display})` : ""}`,
+              },
+            ],
+          };
+        } catch (err) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: ${err instanceof Error ? err.message : String(err)}`,
               },
             ],
             isError: true,
           };
         }
-
-        await midasClient.setValue(group, endpoint, value, index);
-        const path = buildOscPath(group, endpoint, index);
-
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Sent: ${path} = ${JSON.stringify(value)}`,
-            },
-          ],
-        };
-      } catch (err) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Error: ${err instanceof Error ? err.message : String(err)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+      });
     }
   );
 }
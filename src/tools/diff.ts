@@ -0,0 +1,79 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import {
+  stateFromDocument,
+  readLiveState,
+  diffStates,
+  formatStateDiff,
+} from "../diff.js";
+import { findInStores, readJsonFile } from "../storage.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Load a saved show file or channel snapshot by name.
+ */
+function loadState(name: string) {
+  const found = findInStores(["shows", "snapshots"], name);
+  if (!found) {
+    throw new Error(`No show file or snapshot named "${name}".`);
+  }
+  return stateFromDocument(name, readJsonFile(found.path));
+}
+
+/**
+ * Register the state diff tool on the MCP server.
+ */
+export function registerDiffTools(server: McpServer): void {
+  // ── diff_state ───────────────────────────────────────────────────────────
+
+  server.tool(
+    "diff_state",
+    "Compare two saved states (show files or channel snapshots), or one saved state against the live console, and report what changed per channel, grouped by control group, with human-readable values and channel labels (e.g. what moved since the saved show during soundcheck).",
+    {
+      from: z.string().describe("Name of a saved show file or snapshot to compare from"),
+      to: z
+        .string()
+        .optional()
+        .describe("Name of a saved show file or snapshot to compare to. Omit to compare against the live console."),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .default("text")
+        .describe("Output as readable text or structured JSON (default: text)"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between live queries in ms (default: 10)"),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Per-query timeout in ms"),
+    },
+    async ({ from, to, format, pace_ms, timeout_ms }) => {
+      if (!to && !midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const before = loadState(from);
+        const after = to
+          ? loadState(to)
+          : await readLiveState(midasClient, before.values, {
+              paceMs: pace_ms,
+              timeoutMs: timeout_ms,
+            });
+        const diff = diffStates(before, after);
+
+        const text =
+          format === "json" ? JSON.stringify(diff, null, 2) : formatStateDiff(diff);
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
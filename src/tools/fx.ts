@@ -0,0 +1,156 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { getEndpointInfo } from "../endpoints.js";
+import {
+  FX_GROUP,
+  assignEffect,
+  assignedEffect,
+  formatFxReading,
+  getFxCatalogue,
+  readFx,
+  resolveEffect,
+  writeFxParameter,
+} from "../fx.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { formatQuantity, curveFromMetadata } from "../units.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/** Number of internal FX in the rack */
+function rackSize(): number {
+  return getEndpointInfo(FX_GROUP, "enPathname")?.metadata?.indexCount ?? 8;
+}
+
+/**
+ * Register the internal FX tools on the MCP server.
+ */
+export function registerFxTools(server: McpServer): void {
+  // ── list_fx_effects ──────────────────────────────────────────────────────
+
+  server.tool(
+    "list_fx_effects",
+    "List the effect types in the FX catalogue and their named parameters with units and ranges. The catalogue maps each effect's parameters onto the numbered internal FX slots; effects whose slot layout has not been checked against a console are marked unverified.",
+    {
+      effect: z.string().optional().describe("Show only this effect (name or alias)"),
+    },
+    async ({ effect }) => {
+      try {
+        const effects = effect
+          ? [resolveEffect(effect)]
+          : Object.entries(getFxCatalogue().effects).map(([id, e]) => ({ id, effect: e }));
+
+        const lines: string[] = [];
+        for (const { id, effect: e } of effects) {
+          const aliases = e.aliases?.length ? ` (also: ${e.aliases.join(", ")})` : "";
+          lines.push(`${e.name} [${id}]${aliases}${e.verified ? "" : " - unverified slot layout"}`);
+          for (const param of Object.values(e.parameters)) {
+            const curve = curveFromMetadata(param);
+            const range = param.options
+              ? param.options.join(" / ")
+              : curve
+                ? `${formatQuantity({ value: curve.points[0].value, unit: curve.unit })} to ${formatQuantity({ value: curve.points[curve.points.length - 1].value, unit: curve.unit })}`
+                : "raw 0-1";
+            lines.push(`  ${param.label.padEnd(14)} slot ${String(param.slot).padEnd(4)} ${range}`);
+          }
+          lines.push("");
+        }
+        return { content: [{ type: "text" as const, text: lines.join("\n").trimEnd() }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── get_fx ───────────────────────────────────────────────────────────────
+
+  server.tool(
+    "get_fx",
+    "Read an internal FX, or the whole FX rack, with named parameters in readable units. The effect type is taken from the effect argument, else from the type last used with set_fx, else guessed from the FX label.",
+    {
+      fx: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("FX index (0-based). Omit to read the whole rack."),
+      effect: z
+        .string()
+        .optional()
+        .describe("Effect type loaded in this FX (e.g. reverb). Only with fx."),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(2)
+        .describe("Delay between queries in ms (default: 2)"),
+    },
+    async ({ fx, effect, pace_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        if (effect && fx === undefined) {
+          throw new Error("effect can only be given together with fx.");
+        }
+
+        const indices = fx !== undefined ? [fx] : [...Array(rackSize()).keys()];
+        const blocks: string[] = [];
+        for (const index of indices) {
+          const reading = await readFx(midasClient, index, effect, { paceMs: pace_ms });
+          if (effect) assignEffect(index, reading.effect!);
+          blocks.push(formatFxReading(reading));
+        }
+        return { content: [{ type: "text" as const, text: blocks.join("\n\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── set_fx ───────────────────────────────────────────────────────────────
+
+  server.tool(
+    "set_fx",
+    'Set a named parameter of an internal FX, e.g. FX 2 reverb decay = "2.4 s". Values take units ("2.4 s", "80 ms", "30%", "8 kHz"), an option name, or a raw 0-1 number. The effect type is remembered per FX for later get_fx calls. Writes to effects with an unverified slot layout need confirmation.',
+    {
+      fx: z.number().int().min(0).describe("FX index (0-based)"),
+      effect: z
+        .string()
+        .optional()
+        .describe("Effect type loaded in this FX (default: the type last used with this FX)"),
+      parameter: z.string().describe('Parameter name (e.g. "decay", "Pre-delay", "mix")'),
+      value: z
+        .union([z.number(), z.string()])
+        .describe('Value with a unit (e.g. "2.4 s"), an option name, or raw 0-1'),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ fx, effect, parameter, value, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("set_fx", confirm_token, async () => {
+        try {
+          const effectName = effect ?? assignedEffect(fx);
+          if (!effectName) {
+            throw new Error(`FX ${fx} has no known effect type yet. Give effect (see list_fx_effects).`);
+          }
+
+          const sent = await writeFxParameter(midasClient, fx, effectName, parameter, value);
+          if (!sent) {
+            return { content: [{ type: "text" as const, text: `FX ${fx} ${parameter} not set.` }] };
+          }
+          assignEffect(fx, resolveEffect(effectName).id);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `FX ${fx} ${sent.effect.name} ${sent.param.label} = ${sent.human} (slot ${sent.param.slot}, raw ${sent.raw.toFixed(4)})`,
+              },
+            ],
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
@@ -0,0 +1,391 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import {
+  GEQ_FILTERS,
+  GEQ_FILTER_GROUP,
+  GEQ_GROUP,
+  ISO_BANDS,
+  bandForFrequency,
+  diffCurves,
+  formatBand,
+  formatBandDiff,
+  formatCurve,
+  listGeqPresets,
+  loadGeqPreset,
+  readGeqCurve,
+  readGeqFilters,
+  saveGeqPreset,
+  validateBandGain,
+  validateGains,
+  writeGeqCurve,
+  writeGeqFilters,
+  type GeqCurve,
+} from "../geq.js";
+import { formatBatchResults } from "../batch.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { GEQ_RANGE_DB } from "../units.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+const instanceShape = z
+  .number()
+  .int()
+  .min(0)
+  .describe(`GEQ instance in the pool (${GEQ_GROUP} index, 0-based)`);
+
+const outputShape = z
+  .number()
+  .int()
+  .min(0)
+  .describe(`Main out (${GEQ_FILTER_GROUP} index, 0-based)`);
+
+const frequencyShape = z
+  .union([z.number(), z.string()])
+  .optional()
+  .describe('Raw 0-1 float, or a frequency like "80 Hz" where the scale is known');
+
+/**
+ * Read a live curve, failing if no band answered at all.
+ */
+async function readLiveCurve(instance: number, paceMs: number): Promise<GeqCurve> {
+  const gains = await readGeqCurve(midasClient, instance, { paceMs });
+  if (gains.every((g) => g === null)) {
+    throw new Error(`GEQ ${instance} did not respond.`);
+  }
+  return gains;
+}
+
+/**
+ * Register the graphic EQ curve and preset tools on the MCP server.
+ */
+export function registerGeqTools(server: McpServer): void {
+  const bandList = ISO_BANDS.map((_, band) => formatBand(band)).join(", ");
+
+  // ── get_geq_curve ────────────────────────────────────────────────────────
+
+  server.tool(
+    "get_geq_curve",
+    `Read all ${ISO_BANDS.length} bands of a graphic EQ in the pool at once, as dB gains per ISO band (${bandList} Hz).`,
+    {
+      instance: instanceShape,
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .default("text")
+        .describe("Output as a bar chart or JSON (default: text)"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(2)
+        .describe("Delay between queries in ms (default: 2)"),
+    },
+    async ({ instance, format, pace_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const gains = await readLiveCurve(instance, pace_ms);
+        const text =
+          format === "json"
+            ? JSON.stringify(
+                {
+                  instance,
+                  bands: ISO_BANDS.map((hz, band) => ({ hz, gainDb: gains[band] })),
+                },
+                null,
+                2
+              )
+            : `GEQ ${instance}\n${formatCurve(gains)}`;
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── set_geq_curve ────────────────────────────────────────────────────────
+
+  server.tool(
+    "set_geq_curve",
+    `Shape a graphic EQ in one call: apply a named preset, a full curve of ${ISO_BANDS.length} gains, or just some bands by frequency (e.g. {"1k": -3, "2.5k": -2}). Gains are in dB within each band's cut/boost range (±${GEQ_RANGE_DB} unless the metadata says otherwise). Each band may be given once. Current gains are read first and only bands that change are written.`,
+    {
+      instance: instanceShape,
+      preset: z.string().optional().describe("Preset to apply (see list_geq_presets)"),
+      gains: z
+        .array(z.number())
+        .optional()
+        .describe(`All ${ISO_BANDS.length} band gains in dB, lowest band first`),
+      bands: z
+        .record(z.string(), z.number())
+        .optional()
+        .describe('Gains in dB keyed by band frequency, e.g. {"63": 3, "1k": -4}'),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ instance, preset, gains, bands, pace_ms, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("set_geq_curve", confirm_token, async () => {
+        try {
+          const given = [preset, gains, bands].filter((x) => x !== undefined).length;
+          if (given !== 1) {
+            throw new Error("Give exactly one of preset, gains or bands.");
+          }
+
+          let target: (number | undefined)[];
+          if (preset !== undefined) {
+            target = loadGeqPreset(preset).gains;
+          } else if (gains !== undefined) {
+            validateGains(gains);
+            target = gains;
+          } else {
+            target = ISO_BANDS.map(() => undefined);
+            const keys = new Map<number, string>();
+            for (const [frequency, gain] of Object.entries(bands!)) {
+              const band = bandForFrequency(frequency);
+              const earlier = keys.get(band);
+              if (earlier !== undefined) {
+                throw new Error(
+                  `"${earlier}" and "${frequency}" are both the ${formatBand(band)} Hz band.`
+                );
+              }
+              keys.set(band, frequency);
+              validateBandGain(band, gain);
+              target[band] = gain;
+            }
+          }
+
+          const report = await writeGeqCurve(midasClient, instance, target, {
+            paceMs: pace_ms,
+          });
+          const count = report.changed.length;
+          const lines = [
+            `GEQ ${instance}${preset ? ` <- preset "${preset}"` : ""}: ${count} band${count === 1 ? "" : "s"} changed, ${report.unchanged} unchanged`,
+          ];
+          if (count > 0) lines.push(formatBandDiff(report.changed));
+          for (const f of report.failed) {
+            lines.push(`FAILED ${f.endpoint}: ${f.error ?? f.status}`);
+          }
+          return {
+            content: [{ type: "text" as const, text: lines.join("\n") }],
+            isError: report.failed.length > 0 ? true : undefined,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── get_geq_filters ──────────────────────────────────────────────────────
+
+  server.tool(
+    "get_geq_filters",
+    `Read the high-pass, low-pass and notch filter frequencies of a main out's EQ (${Object.values(GEQ_FILTERS).join(", ")}).`,
+    {
+      output: outputShape,
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(2)
+        .describe("Delay between queries in ms (default: 2)"),
+    },
+    async ({ output, pace_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const results = await readGeqFilters(midasClient, output, { paceMs: pace_ms });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Main out ${output} filters\n${formatBatchResults(results)}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── set_geq_filters ──────────────────────────────────────────────────────
+
+  server.tool(
+    "set_geq_filters",
+    "Set the high-pass, low-pass and notch filter frequencies of a main out's EQ in one call. The endpoint database gives these no frequency scale, so send raw 0-1 floats unless the metadata overlay or an annotation supplies one.",
+    {
+      output: outputShape,
+      hp: frequencyShape,
+      lp: frequencyShape,
+      low_notch: frequencyShape,
+      high_notch: frequencyShape,
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ output, pace_ms, confirm_token, ...values }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+      if (Object.values(values).every((v) => v === undefined)) {
+        return errorResult(new Error("Give at least one of hp, lp, low_notch or high_notch."));
+      }
+
+      return confirmable("set_geq_filters", confirm_token, async () => {
+        try {
+          const results = await writeGeqFilters(midasClient, output, values, {
+            paceMs: pace_ms,
+          });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Main out ${output} filters\n${formatBatchResults(results)}`,
+              },
+            ],
+            isError: results.some((r) => r.status !== "ok") ? true : undefined,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── save_geq_preset ──────────────────────────────────────────────────────
+
+  server.tool(
+    "save_geq_preset",
+    "Save a graphic EQ curve as a named local preset, either captured from a live GEQ or given as gains.",
+    {
+      name: z.string().describe("Preset name"),
+      instance: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Capture the curve from this GEQ instance"),
+      gains: z
+        .array(z.number())
+        .optional()
+        .describe(`All ${ISO_BANDS.length} band gains in dB, lowest band first`),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(2)
+        .describe("Delay between queries in ms (default: 2)"),
+    },
+    async ({ name, instance, gains, pace_ms }) => {
+      try {
+        if ((instance === undefined) === (gains === undefined)) {
+          throw new Error("Give either instance or gains.");
+        }
+
+        let curve = gains;
+        if (instance !== undefined) {
+          if (!midasClient.isConnected) return NOT_CONNECTED;
+          const live = await readLiveCurve(instance, pace_ms);
+          const missing = live.findIndex((g) => g === null);
+          if (missing >= 0) {
+            throw new Error(`GEQ ${instance} band ${formatBand(missing)} did not respond.`);
+          }
+          curve = live as number[];
+        }
+
+        const path = saveGeqPreset(name, curve!);
+        return {
+          content: [{ type: "text" as const, text: `GEQ preset "${name}" saved to ${path}` }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── list_geq_presets ─────────────────────────────────────────────────────
+
+  server.tool(
+    "list_geq_presets",
+    "List the built-in and locally saved graphic EQ presets.",
+    {},
+    async () => {
+      try {
+        const presets = listGeqPresets();
+        const lines = [`GEQ presets (${presets.length}):`];
+        for (const p of presets) {
+          lines.push(`  ${p.name}${p.builtin ? " (built-in)" : ""}`);
+        }
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── diff_geq_curve ───────────────────────────────────────────────────────
+
+  server.tool(
+    "diff_geq_curve",
+    "Compare a GEQ preset with a live GEQ or with another preset, band by band.",
+    {
+      preset: z.string().describe("Preset to compare from"),
+      instance: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Live GEQ instance to compare against"),
+      against: z.string().optional().describe("Another preset to compare against"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(2)
+        .describe("Delay between queries in ms (default: 2)"),
+    },
+    async ({ preset, instance, against, pace_ms }) => {
+      try {
+        if ((instance === undefined) === (against === undefined)) {
+          throw new Error("Give either instance or against.");
+        }
+
+        const from = loadGeqPreset(preset).gains;
+        let to: GeqCurve;
+        let toName: string;
+        if (against !== undefined) {
+          to = loadGeqPreset(against).gains;
+          toName = `preset "${against}"`;
+        } else {
+          if (!midasClient.isConnected) return NOT_CONNECTED;
+          to = await readLiveCurve(instance!, pace_ms);
+          toName = `GEQ ${instance}`;
+        }
+
+        const diffs = diffCurves(from, to);
+        const text = [
+          `Preset "${preset}" -> ${toName}: ${diffs.length} band${diffs.length === 1 ? "" : "s"} differ`,
+          formatBandDiff(diffs),
+        ].join("\n");
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
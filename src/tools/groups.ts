@@ -0,0 +1,173 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { parseIndexList } from "../batch.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import {
+  GROUP_KINDS,
+  assignMembers,
+  expandMembers,
+  formatMember,
+  formatMembers,
+  readMembership,
+  setGroupMute,
+  type GroupKind,
+} from "../groups.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/** Tool names per group kind */
+const TOOL_NAMES: Record<GroupKind, { assign: string; mute: string; list: string }> = {
+  mute: {
+    assign: "assign_mute_group",
+    mute: "mute_group",
+    list: "list_mute_group_members",
+  },
+  vca: {
+    assign: "assign_vca_group",
+    mute: "mute_vca_group",
+    list: "list_vca_group_members",
+  },
+};
+
+const memberShape = {
+  inputs: z
+    .string()
+    .optional()
+    .describe('Mic input channels, 0-based (e.g. "0-7, 12")'),
+  aux_returns: z.string().optional().describe("Aux return channels, 0-based"),
+  submixes: z.string().optional().describe("Submixes (auxes), 0-based"),
+  mains: z.string().optional().describe("Main (matrix) outputs, 0-based"),
+  masters: z
+    .array(z.enum(["L", "R", "C"]))
+    .optional()
+    .describe("Master buses"),
+};
+
+function registerKindTools(server: McpServer, kind: GroupKind): void {
+  const { group, label } = GROUP_KINDS[kind];
+  const names = TOOL_NAMES[kind];
+
+  // ── assign ───────────────────────────────────────────────────────────────
+
+  server.tool(
+    names.assign,
+    `Add channels to, remove channels from, or set the exact membership of a ${label} (${group}). Channel lists are translated to the per-child assignment switches; current membership is read first so only switches that need to change are pressed.`,
+    {
+      group_index: z.number().int().min(0).describe(`${label} index (0-based)`),
+      mode: z
+        .enum(["add", "remove", "set"])
+        .optional()
+        .default("add")
+        .describe('"add", "remove", or "set" (make these the only members). Default: add'),
+      ...memberShape,
+      confirm_token: confirmTokenShape,
+    },
+    async ({ group_index, mode, inputs, aux_returns, submixes, mains, masters, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable(names.assign, confirm_token, async () => {
+        try {
+          const members = expandMembers({
+            inputs: inputs ? parseIndexList(inputs) : undefined,
+            auxReturns: aux_returns ? parseIndexList(aux_returns) : undefined,
+            subMixes: submixes ? parseIndexList(submixes) : undefined,
+            mains: mains ? parseIndexList(mains) : undefined,
+            masters,
+          });
+          if (members.length === 0 && mode !== "set") {
+            throw new Error("No channels given.");
+          }
+
+          const report = await assignMembers(midasClient, kind, group_index, members, mode);
+          const lines = [
+            `${label} ${group_index}: ${report.added.length} added, ${report.removed.length} removed, ${report.unchanged} unchanged`,
+          ];
+          if (report.added.length > 0) lines.push(`Added: ${formatMembers(report.added)}`);
+          if (report.removed.length > 0) lines.push(`Removed: ${formatMembers(report.removed)}`);
+          for (const f of report.failed) {
+            lines.push(`FAILED ${formatMember(f.member)}: ${f.error}`);
+          }
+          return {
+            content: [{ type: "text" as const, text: lines.join("\n") }],
+            isError: report.failed.length > 0 ? true : undefined,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── mute ─────────────────────────────────────────────────────────────────
+
+  server.tool(
+    names.mute,
+    `Mute or unmute a whole ${label}. The mute switch toggles, so its current state is read first.`,
+    {
+      group_index: z.number().int().min(0).describe(`${label} index (0-based)`),
+      muted: z.boolean().describe("true to mute, false to unmute"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ group_index, muted, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable(names.mute, confirm_token, async () => {
+        try {
+          const changed = await setGroupMute(midasClient, kind, group_index, muted);
+          const state = muted ? "muted" : "unmuted";
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: changed
+                  ? `${label} ${group_index} ${state}.`
+                  : `${label} ${group_index} was already ${state}.`,
+              },
+            ],
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── list members ─────────────────────────────────────────────────────────
+
+  server.tool(
+    names.list,
+    `Read back which channels are currently assigned to a ${label}.`,
+    {
+      group_index: z.number().int().min(0).describe(`${label} index (0-based)`),
+    },
+    async ({ group_index }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const { members, unknown } = await readMembership(
+          midasClient,
+          kind,
+          group_index
+        );
+        const lines = [
+          `${label} ${group_index}: ${members.length} member${members.length === 1 ? "" : "s"}`,
+          formatMembers(members),
+        ];
+        if (unknown.length > 0) {
+          lines.push("", `No response for: ${formatMembers(unknown)}`);
+        }
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
+
+/**
+ * Register the mute group and VCA group tools on the MCP server.
+ */
+export function registerGroupTools(server: McpServer): void {
+  registerKindTools(server, "mute");
+  registerKindTools(server, "vca");
+}
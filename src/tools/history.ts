@@ -0,0 +1,127 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import {
+  auditLog,
+  auditLogPath,
+  formatAuditEntries,
+  formatUndoSteps,
+  parseSince,
+  type AuditEntry,
+} from "../audit.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the audit log and undo tools on the MCP server.
+ */
+export function registerHistoryTools(server: McpServer): void {
+  const forceShape = z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Set back even values changed on the console since (default: false)");
+
+  async function undo(entries: AuditEntry[], force: boolean) {
+    const steps = await auditLog.undo(entries, { force });
+    return {
+      content: [{ type: "text" as const, text: formatUndoSteps(steps) }],
+      isError: steps.some((s) => s.status === "failed") ? true : undefined,
+    };
+  }
+
+  // ── show_history ─────────────────────────────────────────────────────────
+
+  server.tool(
+    "show_history",
+    "Show the audit log of writes sent to the console: when, which tool, the OSC address, and the value before and after. Undone writes and the undo writes themselves are marked.",
+    {
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .optional()
+        .default(20)
+        .describe("Newest entries to show (default: 20)"),
+      since: z
+        .string()
+        .optional()
+        .describe('Only writes since this ISO time or duration ago, e.g. "15m", "2h"'),
+      tool: z.string().optional().describe('Only writes made by this tool, e.g. "set_value"'),
+    },
+    async ({ limit, since, tool }) => {
+      try {
+        const all = auditLog.entries();
+        const entries = auditLog.entries({
+          since: since ? parseSince(since) : undefined,
+          tool,
+          limit,
+        });
+        if (entries.length === 0) {
+          return { content: [{ type: "text" as const, text: "No writes recorded." }] };
+        }
+        const text = [
+          `${entries.length} write${entries.length === 1 ? "" : "s"} (log: ${auditLogPath()})`,
+          formatAuditEntries(entries, auditLog.undoneIds(all)),
+        ].join("\n");
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── undo_last ────────────────────────────────────────────────────────────
+
+  server.tool(
+    "undo_last",
+    "Undo the writes made by the last tool calls that changed the console, by writing back the values they replaced. Toggle switches, unknown old values and values changed on the console since are skipped; calls with nothing left to set back are passed over.",
+    {
+      count: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(1)
+        .describe("How many tool calls to undo (default: 1)"),
+      force: forceShape,
+      confirm_token: confirmTokenShape,
+    },
+    async ({ count, force, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("undo_last", confirm_token, async () => {
+        try {
+          return await undo(auditLog.lastCalls(count), force);
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── undo_since ───────────────────────────────────────────────────────────
+
+  server.tool(
+    "undo_since",
+    "Undo every write made since a point in time, setting each address back to its value before the first of them. Toggle switches, unknown old values and values changed on the console since are skipped; calls with nothing left to set back are passed over.",
+    {
+      since: z.string().describe('ISO time or duration ago, e.g. "15m", "2h"'),
+      force: forceShape,
+      confirm_token: confirmTokenShape,
+    },
+    async ({ since, force, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("undo_since", confirm_token, async () => {
+        try {
+          return await undo(auditLog.openSince(parseSince(since)), force);
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
@@ -4,11 +4,17 @@ import {
   listGroups,
   listEndpoints,
   getEndpointInfo,
+  getEndpointSource,
+  getConflicts,
   buildOscPath,
+  checkIndex,
   searchEndpoints,
   getStats,
   type OscMessageType,
 } from "../endpoints.js";
+import { getUnitCurve, formatQuantity, rawToValue } from "../units.js";
+import { midasClient } from "../osc-client.js";
+import { resolveTarget, formatResolved, type ResolvedChannel } from "../channels.js";
 
 /**
  * Register all Phase 1 knowledge-base tools on the MCP server.
@@ -26,13 +32,18 @@ export function registerKnowledgeTools(server: McpServer): void {
 
       const lines = [
         `Midas Pro Series OSC Command Database`,
-        `${stats.totalGroups} groups | ${stats.totalEndpoints} total endpoints | ${stats.documentedEndpoints} documented`,
+        `${stats.totalGroups} groups | ${stats.totalEndpoints} total endpoints | ${stats.documentedEndpoints} documented | ${stats.annotatedEndpoints} annotated`,
         ``,
         `Message types:`,
         ...Object.entries(stats.byMessageType).map(
           ([type, count]) => `  ${type}: ${count}`
         ),
         ``,
+        `Sources:`,
+        ...Object.entries(stats.bySource).map(
+          ([source, count]) => `  ${source}: ${count}`
+        ),
+        ``,
         `Control Groups:`,
         `${"─".repeat(70)}`,
       ];
@@ -45,6 +56,15 @@ export function registerKnowledgeTools(server: McpServer): void {
         lines.push(`    Types: ${typeStr}`);
       }
 
+      if (stats.conflicts > 0) {
+        lines.push(``, `Conflicts (later source wins):`);
+        for (const c of getConflicts()) {
+          lines.push(
+            `  ${c.group}/${c.endpoint}: ${c.keptSource} overrides ${c.overriddenSource}`
+          );
+        }
+      }
+
       return {
         content: [{ type: "text" as const, text: lines.join("\n") }],
       };
@@ -80,7 +100,12 @@ export function registerKnowledgeTools(server: McpServer): void {
 
       for (const { endpoint, spec } of endpoints) {
         const readOnly = spec.argumentType === null ? " [READ-ONLY]" : "";
-        const multi = spec.multiPath ? " [indexed]" : "";
+        const count = spec.metadata?.indexCount;
+        const multi = spec.multiPath
+          ? count !== undefined
+            ? ` [indexed x${count}]`
+            : " [indexed]"
+          : "";
         const typeShort = spec.type.replace("enPPC", "").replace("Message", "");
         lines.push(
           `  ${endpoint}${readOnly}${multi}`,
@@ -99,7 +124,7 @@ export function registerKnowledgeTools(server: McpServer): void {
 
   server.tool(
     "search_endpoints",
-    "Search across all 4,596 endpoints by keyword. Matches endpoint names, descriptions, group names, and message types. Use this to find the right command for what you want to control (e.g. 'fader', 'mute', 'eq frequency', 'label').",
+    "Search across all 4,596 endpoints by keyword, ranked by relevance. Matches endpoint names (split on camelCase), descriptions, group names, and message types, understands common audio terms ('volume' finds faders, 'compressor' finds CompLim) and tolerates typos. Use this to find the right command for what you want to control (e.g. 'fader', 'mute', 'eq frequency', 'label'). Page through long result lists with offset.",
     {
       query: z.string().describe("Search keywords (e.g. 'fader level', 'eq bass', 'mute')"),
       group: z
@@ -117,8 +142,23 @@ export function registerKnowledgeTools(server: McpServer): void {
         ])
         .optional()
         .describe("Filter by message type"),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe("Number of results to skip, for paging (default: 0)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(200)
+        .optional()
+        .default(50)
+        .describe("Maximum number of results to return (default: 50)"),
     },
-    async ({ query, group, type }) => {
+    async ({ query, group, type, offset, limit }) => {
       const results = searchEndpoints(query, {
         group,
         type: type as OscMessageType | undefined,
@@ -135,14 +175,19 @@ export function registerKnowledgeTools(server: McpServer): void {
         };
       }
 
-      // Cap at 50 results to avoid overwhelming output
-      const capped = results.slice(0, 50);
+      const page = results.slice(offset, offset + limit);
+      const shown =
+        page.length === results.length
+          ? ""
+          : page.length === 0
+            ? ` (none at offset ${offset})`
+            : ` (showing ${offset + 1}-${offset + page.length})`;
       const lines = [
-        `Found ${results.length} endpoint${results.length === 1 ? "" : "s"} matching "${query}"${results.length > 50 ? ` (showing first 50)` : ""}`,
+        `Found ${results.length} endpoint${results.length === 1 ? "" : "s"} matching "${query}"${shown}`,
         `${"─".repeat(70)}`,
       ];
 
-      for (const r of capped) {
+      for (const r of page) {
         const readOnly = r.spec.argumentType === null ? " [READ-ONLY]" : "";
         const multi = r.spec.multiPath ? "/N" : "";
         lines.push(
@@ -152,6 +197,9 @@ export function registerKnowledgeTools(server: McpServer): void {
           ``
         );
       }
+      if (offset + page.length < results.length) {
+        lines.push(`More results: use offset ${offset + page.length}.`);
+      }
 
       return {
         content: [{ type: "text" as const, text: lines.join("\n") }],
@@ -191,6 +239,7 @@ export function registerKnowledgeTools(server: McpServer): void {
         `Argument Type: ${spec.argumentType ?? "none (read-only)"}`,
         `Multi-Path:    ${spec.multiPath ? "Yes (append channel/instance index)" : "No (single instance)"}`,
         `Description:   ${spec.description}`,
+        `Source:        ${getEndpointSource(group, endpoint)}`,
       ];
 
       if (spec.isAbsolute !== undefined) {
@@ -199,6 +248,57 @@ export function registerKnowledgeTools(server: McpServer): void {
         );
       }
 
+      const meta = spec.metadata;
+      if (meta?.indexCount !== undefined) {
+        lines.push(`Instances:     ${meta.indexCount} (index 0-${meta.indexCount - 1})`);
+      }
+
+      const curve = getUnitCurve(group, endpoint);
+      if (curve) {
+        const origin = {
+          metadata: spec.annotation?.breakpoints ? "from annotations" : "from metadata overlay",
+          description: "from description",
+          "fader-law": "Midas fader law",
+          "meter-law": "assumed meter scale",
+          "gr-meter-law": "assumed gain-reduction scale",
+          "geq-law": "assumed GEQ scale",
+        }[curve.origin];
+        const points = curve.points
+          .map((p) => `${p.raw}=${formatQuantity({ value: p.value, unit: curve.unit })}`)
+          .join(", ");
+        lines.push(
+          `Units:         ${curve.unit} (${origin}, ${curve.scale})`,
+          `               ${points}`
+        );
+      }
+
+      const range =
+        meta?.range ??
+        (curve && {
+          min: rawToValue(curve, 0),
+          max: rawToValue(curve, 1),
+        });
+      if (range) {
+        const unit = meta?.unit ?? curve?.unit;
+        const fmt = (value: number) =>
+          unit ? formatQuantity({ value, unit }) : String(value);
+        lines.push(`Range:         ${fmt(range.min)} to ${fmt(range.max)}`);
+      }
+
+      if (meta?.options) {
+        lines.push(`Options:       ${meta.options.join(" → ")}`);
+      }
+
+      const annotation = spec.annotation;
+      if (annotation) {
+        lines.push(
+          `Annotated:     ${annotation.verifiedOn?.length ? `verified on firmware ${annotation.verifiedOn.join(", ")}` : "not verified on a console"}${annotation.updatedAt ? ` (updated ${annotation.updatedAt.slice(0, 10)})` : ""}`
+        );
+        if (annotation.notes) {
+          lines.push(`Notes:         ${annotation.notes}`);
+        }
+      }
+
       // Add usage hints based on message type
       lines.push("", "Usage:");
       switch (spec.type) {
@@ -252,9 +352,12 @@ export function registerKnowledgeTools(server: McpServer): void {
 
   server.tool(
     "build_osc_command",
-    "Construct the complete OSC path string for a command, ready to send. Validates the group, endpoint, and index. Returns the exact path you would send over UDP.",
+    "Construct the complete OSC path string for a command, ready to send. Validates the group, endpoint, and index. Returns the exact path you would send over UDP. The channel can be given as group + 0-based index or as a human reference (channel); labels are only looked up while connected.",
     {
-      group: z.string().describe("Control group name"),
+      group: z
+        .string()
+        .optional()
+        .describe("Control group name. Optional when channel is given."),
       endpoint: z.string().describe("Endpoint/parameter name"),
       index: z
         .number()
@@ -262,8 +365,31 @@ export function registerKnowledgeTools(server: McpServer): void {
         .min(0)
         .optional()
         .describe("Channel/instance index (0-based). Required for multi-path endpoints."),
+      channel: z
+        .string()
+        .optional()
+        .describe(
+          'Human channel reference instead of group + index: a 1-based number ("input 5", "aux return 3", "master L") or a channel label ("Vocal 1")'
+        ),
     },
-    async ({ group, endpoint, index }) => {
+    async ({ endpoint, ...target }) => {
+      let group: string;
+      let index: number | undefined;
+      let resolved: ResolvedChannel | undefined;
+      try {
+        ({ group, index, resolved } = await resolveTarget(target, midasClient));
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${err instanceof Error ? err.message : String(err)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
       const spec = getEndpointInfo(group, endpoint);
       if (!spec) {
         return {
@@ -289,9 +415,18 @@ export function registerKnowledgeTools(server: McpServer): void {
         };
       }
 
+      const indexError = checkIndex(group, endpoint, index);
+      if (indexError) {
+        return {
+          content: [{ type: "text" as const, text: indexError }],
+          isError: true,
+        };
+      }
+
       const path = buildOscPath(group, endpoint, index)!;
 
       const lines = [
+        ...(resolved ? [formatResolved(resolved)] : []),
         `OSC Path: ${path}`,
         ``,
         `To GET current value: Send ${path} with no arguments`,
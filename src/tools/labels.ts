@@ -0,0 +1,155 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { getEndpointInfo } from "../endpoints.js";
+import { parseIndexList, formatBatchResults } from "../batch.js";
+import {
+  parseLabelCsv,
+  resolveLabelGroup,
+  applyLabels,
+  readLabels,
+  labelsToCsv,
+  MAX_LABEL_LENGTH,
+  type LabelEntry,
+} from "../labels.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the channel labelling tools on the MCP server.
+ */
+export function registerLabelTools(server: McpServer): void {
+  // ── label_channels ───────────────────────────────────────────────────────
+
+  server.tool(
+    "label_channels",
+    `Rename many channels at once from a CSV or a list. CSV columns are index,name[,colour] or group,index,name[,colour] (0-based indices, optional header row); groups may be given as short names like input, aux, monitor, submix, main, master. Labels must be printable ASCII and at most ${MAX_LABEL_LENGTH} characters. Only labels that differ are written; the report lists what changed.`,
+    {
+      group: z
+        .string()
+        .optional()
+        .default("enVirtualMicInputs")
+        .describe("Group for rows without a group column (default: enVirtualMicInputs)"),
+      csv: z.string().optional().describe("Label list as CSV text"),
+      labels: z
+        .array(
+          z.object({
+            index: z.number().int().min(0).describe("Channel index (0-based)"),
+            name: z.string().describe("New label"),
+            colour: z.string().optional(),
+          })
+        )
+        .optional()
+        .describe("Label list (alternative to csv)"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ group, csv, labels, pace_ms, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+      if (!csv && !labels) {
+        return errorResult(new Error("Provide either csv or labels."));
+      }
+
+      return confirmable("label_channels", confirm_token, async () => {
+        try {
+          const defaultGroup = resolveLabelGroup(group);
+          const { entries, invalid } = csv
+            ? parseLabelCsv(csv, defaultGroup)
+            : { entries: labels!.map((l): LabelEntry => ({ group: defaultGroup, ...l })), invalid: [] };
+          if (invalid.length > 0) {
+            const lines = [`${invalid.length} invalid row(s), nothing written:`];
+            for (const bad of invalid) lines.push(`  line ${bad.line}: ${bad.error}`);
+            return errorResult(new Error(lines.join("\n")));
+          }
+
+          const report = await applyLabels(midasClient, entries, { paceMs: pace_ms });
+          const lines = [
+            `${report.changed.length} label(s) changed, ${report.unchanged} unchanged, ${report.failed.length} failed`,
+          ];
+          for (const c of report.changed) {
+            lines.push(`  ${c.group}/${c.index}: ${c.from === null ? "(unknown)" : `"${c.from}"`} → "${c.to}"`);
+          }
+          if (report.failed.length > 0) {
+            lines.push("", formatBatchResults(report.failed));
+          }
+          if (report.coloursIgnored > 0) {
+            lines.push(
+              "",
+              `${report.coloursIgnored} colour(s) ignored: the endpoint database has no channel colour endpoint.`
+            );
+          }
+          return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── read_labels ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "read_labels",
+    "Read the current channel labels of one or more groups and return them as a group,index,name CSV patch list that label_channels accepts.",
+    {
+      groups: z
+        .array(z.string())
+        .optional()
+        .default(["enVirtualMicInputs"])
+        .describe("Groups to read, as names or short names (default: enVirtualMicInputs)"),
+      indices: z
+        .string()
+        .optional()
+        .describe('0-based channel indices (e.g. "0-47"). Default: every channel of groups with a known count.'),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between queries in ms (default: 10)"),
+    },
+    async ({ groups, indices, pace_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const entries: LabelEntry[] = [];
+        const missing: string[] = [];
+        for (const name of groups) {
+          const group = resolveLabelGroup(name);
+          const spec = getEndpointInfo(group, "enPathname")!;
+          let list = indices && spec.multiPath ? parseIndexList(indices) : undefined;
+          if (!spec.multiPath) {
+            list = [0];
+          } else if (!list) {
+            const count = spec.metadata?.indexCount;
+            if (count === undefined) {
+              throw new Error(`Channel count of ${group} is unknown; give indices.`);
+            }
+            list = Array.from({ length: count }, (_, i) => i);
+          }
+
+          const result = await readLabels(midasClient, group, list, { paceMs: pace_ms });
+          entries.push(...result.entries);
+          if (result.noResponse.length > 0) {
+            missing.push(`${group}: ${result.noResponse.join(", ")}`);
+          }
+        }
+
+        const lines = [labelsToCsv(entries)];
+        if (missing.length > 0) {
+          lines.push("", "No response:", ...missing.map((m) => `  ${m}`));
+        }
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
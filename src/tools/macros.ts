@@ -0,0 +1,132 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import {
+  formatMacro,
+  formatMacroResults,
+  listMacros,
+  loadMacro,
+  runMacro,
+  saveMacro,
+} from "../macros.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the macro (cue) tools on the MCP server.
+ */
+export function registerMacroTools(server: McpServer): void {
+  // ── create_macro ─────────────────────────────────────────────────────────
+
+  server.tool(
+    "create_macro",
+    'Save a named macro, e.g. a theatre cue: an ordered list of writes with optional delays and fades, run later with run_macro. Every step is checked against the endpoint database now, so a saved macro only fails at run time if the console does. Values may be raw, carry a unit ("-6 dB"), or be "on"/"off" for switches; toggle switches such as mutes are only pressed when not already in the wanted state.',
+    {
+      name: z.string().describe('Macro name (e.g. "cue-12")'),
+      description: z.string().optional().describe("What the macro is for"),
+      steps: z
+        .array(
+          z.object({
+            group: z.string().describe("Control group name"),
+            endpoint: z.string().describe("Endpoint/parameter name"),
+            index: z.number().int().min(0).optional().describe("Channel/instance index (0-based)"),
+            value: z
+              .union([z.number(), z.string()])
+              .describe('Raw value, value with unit ("-6 dB"), or "on"/"off" for switches'),
+            delay_ms: z
+              .number()
+              .int()
+              .min(0)
+              .optional()
+              .describe("Wait before this step, from the start of the previous one"),
+            fade_ms: z
+              .number()
+              .int()
+              .min(0)
+              .optional()
+              .describe("Fade from the current value over this long (faders and other floats); later steps start while it runs"),
+          })
+        )
+        .min(1)
+        .describe("Writes in the order they run"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Replace an existing macro of this name (default: false)"),
+    },
+    async ({ name, description, steps, overwrite }) => {
+      try {
+        const path = saveMacro(
+          name,
+          steps.map(({ delay_ms, fade_ms, ...step }) => ({
+            ...step,
+            delayMs: delay_ms,
+            fadeMs: fade_ms,
+          })),
+          description,
+          overwrite
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Saved to ${path}\n${formatMacro(loadMacro(name))}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── list_macros ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "list_macros",
+    "List saved macros with their steps, or show one macro.",
+    {
+      name: z.string().optional().describe("Only show this macro"),
+    },
+    async ({ name }) => {
+      try {
+        const macros = name ? [loadMacro(name)] : listMacros();
+        const text =
+          macros.length === 0
+            ? "No macros saved. Use create_macro."
+            : macros.map(formatMacro).join("\n\n");
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── run_macro ────────────────────────────────────────────────────────────
+
+  server.tool(
+    "run_macro",
+    "Run a saved macro against the connected console: its writes go out in order with their delays and fades. Writes are checked by the safety policy and journaled in the audit log, so undo_last reverts a whole macro. Failed steps are reported and do not stop the rest.",
+    {
+      name: z.string().describe("Macro name"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ name, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("run_macro", confirm_token, async () => {
+        try {
+          const macro = loadMacro(name);
+          const results = await runMacro(midasClient, macro);
+          return {
+            content: [{ type: "text" as const, text: formatMacroResults(macro, results) }],
+            isError: results.some((r) => r.status === "failed") ? true : undefined,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
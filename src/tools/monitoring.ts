@@ -0,0 +1,232 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { getEndpointInfo, getGroupNames } from "../endpoints.js";
+import { parseIndexList, expandItems } from "../batch.js";
+import {
+  CHANNEL_METERS,
+  monitorMeters,
+  formatMeterFrame,
+  getLatestMeterFrame,
+} from "../meters.js";
+import { alertEngine, describeRule, type AlertEvent } from "../alerts.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+const METERS_URI = "midas://meters/latest";
+
+function formatEvent(e: AlertEvent): string {
+  const time = e.at.slice(11, 19);
+  return `  #${e.id} ${time} ${e.kind.toUpperCase().padEnd(9)} ${e.rule} at ${e.address}${e.human ? ` (${e.human})` : ` (${e.value})`}`;
+}
+
+/**
+ * Register all Phase 4 monitoring tools and resources on the MCP server.
+ */
+export function registerMonitoringTools(server: McpServer): void {
+  alertEngine.on("alert", (event: AlertEvent) => {
+    server.server
+      .sendLoggingMessage({
+        level: event.kind === "triggered" ? "warning" : "info",
+        logger: "midas-pro/alerts",
+        data: event,
+      })
+      .catch(() => {});
+  });
+  alertEngine.start();
+
+  // ── meter_levels ─────────────────────────────────────────────────────────
+
+  server.tool(
+    "meter_levels",
+    `Watch meters across a range of channels for a short window and return current, peak-hold and RMS levels in dB (dBFS for signal meters, dB of reduction for GR meters). Meters: ${CHANNEL_METERS.join(", ")}. The latest frame is also available as the ${METERS_URI} resource.`,
+    {
+      group: z.string().describe("Control group name (e.g. enVirtualMicInputs)"),
+      indices: z
+        .string()
+        .describe('0-based channel indices, as a list and/or ranges (e.g. "0-23")'),
+      meters: z
+        .array(z.string())
+        .optional()
+        .default(["enMeter"])
+        .describe("Meter endpoints to watch (default: enMeter)"),
+      rate_hz: z
+        .number()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Polls per second for each meter (default: 10); lowered for many meters, so the console gets at most 100 queries a second"),
+      duration_ms: z
+        .number()
+        .int()
+        .min(100)
+        .max(30000)
+        .optional()
+        .default(1000)
+        .describe("Length of the measuring window in ms (default: 1000)"),
+    },
+    async ({ group, indices, meters, rate_hz, duration_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+      if (!getGroupNames().includes(group)) {
+        return errorResult(new Error(`Group "${group}" not found.`));
+      }
+
+      try {
+        for (const meter of meters) {
+          if (getEndpointInfo(group, meter)?.type !== "enPPCMeterMessage") {
+            throw new Error(`"${meter}" is not a meter in group "${group}".`);
+          }
+        }
+        const items = expandItems(group, meters, parseIndexList(indices));
+        if (items.length === 0) {
+          throw new Error("No meters to watch. Give channel indices.");
+        }
+
+        const frame = await monitorMeters(midasClient, items, {
+          rateHz: rate_hz,
+          durationMs: duration_ms,
+        });
+        return {
+          content: [{ type: "text" as const, text: formatMeterFrame(frame) }],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── midas://meters/latest ────────────────────────────────────────────────
+
+  server.resource(
+    "meter-frame",
+    METERS_URI,
+    {
+      description: "Latest meter frame measured by meter_levels, as JSON",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(getLatestMeterFrame(), null, 2),
+        },
+      ],
+    })
+  );
+
+  // ── add_alert_rule ───────────────────────────────────────────────────────
+
+  server.tool(
+    "add_alert_rule",
+    'Define an alert rule that is evaluated continuously against incoming console data, e.g. main out clip (enVirtualMainOuts/enClipState active), input 12 silent for 30 s (enVirtualMicInputs/enMeter index 11 below -50 for 30000 ms), or GR above 10 dB on master 2. Thresholds are in the endpoint\'s units: dBFS for level meters, positive dB of reduction for GR meters. Events appear in list_alerts and are sent as log notifications. Rules are saved and survive restarts.',
+    {
+      name: z.string().describe("Unique rule name; an existing rule with this name is replaced"),
+      group: z.string().describe("Control group name (e.g. enVirtualMainOuts)"),
+      endpoint: z.string().describe("Endpoint to watch (e.g. enClipState, enMeter)"),
+      indices: z
+        .string()
+        .optional()
+        .describe('0-based channel indices (e.g. "11" or "0-7"). Default: every instance.'),
+      condition: z
+        .enum(["above", "below", "active"])
+        .describe("above/below compare with threshold; active fires on any non-zero value"),
+      threshold: z
+        .number()
+        .optional()
+        .describe("Threshold in the endpoint's units (dB for meters and faders; GR meters count dB of reduction)"),
+      for_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("How long the condition must hold before the alert fires"),
+    },
+    async ({ name, group, endpoint, indices, condition, threshold, for_ms }) => {
+      try {
+        const rule = {
+          name,
+          group,
+          endpoint,
+          indices: indices ? parseIndexList(indices) : undefined,
+          condition,
+          threshold,
+          forMs: for_ms,
+        };
+        alertEngine.addRule(rule);
+        const note = midasClient.isConnected
+          ? ""
+          : "\nNot connected yet; evaluation starts once connected.";
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Alert rule "${name}" set: ${describeRule(rule)}${note}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── remove_alert_rule ────────────────────────────────────────────────────
+
+  server.tool(
+    "remove_alert_rule",
+    "Delete an alert rule by name.",
+    {
+      name: z.string().describe("Rule name"),
+    },
+    async ({ name }) => {
+      if (!alertEngine.removeRule(name)) {
+        return errorResult(new Error(`No alert rule named "${name}".`));
+      }
+      return {
+        content: [{ type: "text" as const, text: `Alert rule "${name}" removed.` }],
+      };
+    }
+  );
+
+  // ── list_alerts ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "list_alerts",
+    "Show alert rules, alerts currently firing and recent alert events (triggered/cleared). Use after_id to fetch only events newer than the last one seen.",
+    {
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(20)
+        .describe("Maximum number of recent events (default: 20)"),
+      after_id: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe("Only events with a higher id"),
+    },
+    async ({ limit, after_id }) => {
+      const rules = alertEngine.listRules();
+      const active = alertEngine.activeAlerts();
+      const events = alertEngine.recentEvents(limit, after_id);
+
+      const lines = [`Rules (${rules.length}):`];
+      for (const rule of rules) {
+        lines.push(`  ${rule.name}: ${describeRule(rule)}`);
+      }
+      lines.push("", `Active (${active.length}):`);
+      for (const a of active) {
+        lines.push(`  ${a.rule} at ${a.address} since ${new Date(a.since).toISOString().slice(11, 19)}`);
+      }
+      lines.push("", `Recent events (${events.length}):`);
+      for (const e of events) lines.push(formatEvent(e));
+
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    }
+  );
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { getChannelOverview, formatChannelOverview } from "../overview.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the channel overview tool on the MCP server.
+ */
+export function registerOverviewTools(server: McpServer): void {
+  // ── get_channel_overview ─────────────────────────────────────────────────
+
+  server.tool(
+    "get_channel_overview",
+    "Read one channel's whole strip in parallel (label, input gain, filters, gate, dynamics, EQ bands, insert, direct out, mute, fader) and show it as a single strip summary with human-readable units. Works for any enVirtual* group; endpoints are sorted into sections by name.",
+    {
+      group: z.string().describe("Control group name (e.g. enVirtualMicInputs)"),
+      index: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Channel index (0-based). Omit for groups without channels."),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .default("text")
+        .describe("Output as a readable strip or structured JSON (default: text)"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(2)
+        .describe("Delay between queries in ms (default: 2)"),
+    },
+    async ({ group, index, format, pace_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const overview = await getChannelOverview(midasClient, group, index, {
+          paceMs: pace_ms,
+        });
+        const text =
+          format === "json"
+            ? JSON.stringify(overview, null, 2)
+            : formatChannelOverview(overview);
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import {
+  formatRecording,
+  formatReplayResults,
+  listRehearsals,
+  loadRehearsal,
+  replayMessages,
+  saveRehearsal,
+} from "../rehearsal.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the dry-run recording and replay tools on the MCP server.
+ */
+export function registerRehearsalTools(server: McpServer): void {
+  // ── get_dry_run ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "get_dry_run",
+    "Show the writes recorded in dry-run mode exactly as they would go on the wire (OSC path, type tag, clamped value), or those of a saved rehearsal. Also lists saved rehearsals.",
+    {
+      name: z.string().optional().describe("Saved rehearsal to show (default: the current recording)"),
+    },
+    async ({ name }) => {
+      try {
+        const lines: string[] = [];
+        if (name) {
+          const file = loadRehearsal(name);
+          const target = file.console ? ` against ${file.console.ip}:${file.console.port}` : "";
+          lines.push(
+            `Rehearsal "${file.name}" (saved ${file.savedAt}${target}): ${file.messages.length} writes`,
+            formatRecording(file.messages)
+          );
+        } else {
+          const recorded = midasClient.recorded;
+          lines.push(
+            midasClient.isDryRun
+              ? `Dry run: ${recorded.length} write${recorded.length === 1 ? "" : "s"} recorded`
+              : `Not in dry-run mode; ${recorded.length} write${recorded.length === 1 ? "" : "s"} left from the last dry run`
+          );
+          if (recorded.length > 0) lines.push(formatRecording(recorded));
+        }
+        const saved = listRehearsals();
+        lines.push("", `Saved rehearsals: ${saved.length > 0 ? saved.join(", ") : "(none)"}`);
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── export_dry_run ───────────────────────────────────────────────────────
+
+  server.tool(
+    "export_dry_run",
+    "Save the writes recorded in dry-run mode as a named rehearsal file, to replay later against a real console with replay_dry_run. The recording starts over afterwards unless keep is true.",
+    {
+      name: z.string().describe('Rehearsal name (e.g. "act1-changes")'),
+      keep: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Keep the recording instead of starting over (default: false)"),
+    },
+    async ({ name, keep }) => {
+      try {
+        const messages = [...midasClient.recorded];
+        const path = saveRehearsal(name, messages, midasClient.connectionInfo);
+        if (!keep) midasClient.takeRecording();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Saved ${messages.length} write${messages.length === 1 ? "" : "s"} to ${path}`,
+            },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── replay_dry_run ───────────────────────────────────────────────────────
+
+  server.tool(
+    "replay_dry_run",
+    "Send the writes of a saved rehearsal to the connected console, in the recorded order. Every write is checked by the safety policy and journaled in the audit log. Toggle switches are only pressed where the console is not already in the rehearsed state. In dry-run mode the writes are recorded again instead, as a preview.",
+    {
+      name: z.string().describe("Saved rehearsal name"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .max(10000)
+        .optional()
+        .default(0)
+        .describe("Pause between writes in ms (default: 0)"),
+      keep_timing: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Keep the gaps between writes as recorded, up to 10 s each (default: false)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ name, pace_ms, keep_timing, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("replay_dry_run", confirm_token, async () => {
+        try {
+          const file = loadRehearsal(name);
+          const results = await replayMessages(midasClient, file.messages, {
+            paceMs: pace_ms,
+            keepTiming: keep_timing,
+          });
+          return {
+            content: [{ type: "text" as const, text: formatReplayResults(results) }],
+            isError: results.some((r) => r.status === "failed") ? true : undefined,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  describeJumpLimit,
+  describeRule,
+  formatPendingConfirmation,
+  safetyEngine,
+} from "../safety.js";
+import { auditLog } from "../audit.js";
+import { midasClient } from "../osc-client.js";
+import { formatRecording } from "../rehearsal.js";
+import { parseIndexList } from "../batch.js";
+import { errorResult } from "./util.js";
+
+/** Parameter shape shared by every tool that writes to the console */
+export const confirmTokenShape = z
+  .string()
+  .optional()
+  .describe("Token from a CONFIRMATION REQUIRED reply, once the user has agreed");
+
+/**
+ * Run a writing tool under the safety policy's confirmation flow. Writes
+ * that need confirmation are held back and a token for them is appended to
+ * the result; calling again with that token lets exactly those writes
+ * through. The writes are journaled in the audit log under `tool`; in
+ * dry-run mode the messages recorded instead are listed in the result.
+ */
+export async function confirmable(
+  tool: string,
+  token: string | undefined,
+  run: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  try {
+    const recordedBefore = midasClient.recorded.length;
+    const { result, pending } = await auditLog.runAs(tool, () =>
+      safetyEngine.withConfirmation(token, run)
+    );
+    const content = [...result.content];
+    if (midasClient.isDryRun) {
+      const recorded = midasClient.recorded.slice(recordedBefore);
+      content.push({
+        type: "text",
+        text:
+          recorded.length === 0
+            ? "DRY RUN, nothing sent to the console and nothing recorded."
+            : `DRY RUN, nothing sent to the console. ${recorded.length} message${recorded.length === 1 ? "" : "s"} recorded:\n${formatRecording(recorded)}`,
+      });
+    }
+    if (!pending) return { ...result, content };
+    return {
+      content: [...content, { type: "text", text: formatPendingConfirmation(pending) }],
+      isError: true,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+/**
+ * Register the safety policy tools on the MCP server.
+ */
+export function registerSafetyTools(server: McpServer): void {
+  // ── get_safety_policy ────────────────────────────────────────────────────
+
+  server.tool(
+    "get_safety_policy",
+    "Show the safety policy every write to the console is checked against: the mode (normal or read-only), allow/deny/confirm rules in the order they are tried, and fader jump limits.",
+    {},
+    async () => {
+      try {
+        const policy = safetyEngine.getPolicy();
+        const lines = [`Safety policy: ${policy.mode} mode`, "", "Rules (first match decides):"];
+        if (policy.rules.length === 0) lines.push("  (none)");
+        for (const rule of policy.rules) {
+          lines.push(`  ${rule.name}: ${describeRule(rule)}${rule.reason ? ` (${rule.reason})` : ""}`);
+        }
+        lines.push("", "Jump limits:");
+        if (policy.jumpLimits.length === 0) lines.push("  (none)");
+        for (const limit of policy.jumpLimits) {
+          lines.push(`  ${limit.name}: ${describeJumpLimit(limit)}`);
+        }
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── set_safety_mode ──────────────────────────────────────────────────────
+
+  server.tool(
+    "set_safety_mode",
+    'Switch the safety policy between "normal" and "read-only". In read-only mode every write to the console is denied, e.g. while a show is running. Leaving read-only mode needs a confirmation token from the user.',
+    {
+      mode: z.enum(["normal", "read-only"]).describe("Safety mode"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ mode, confirm_token }) =>
+      confirmable("set_safety_mode", confirm_token, async () => {
+        try {
+          if (!safetyEngine.approvePolicyChange({ kind: "mode", mode })) {
+            const current = safetyEngine.getPolicy().mode;
+            return {
+              content: [{ type: "text" as const, text: `Safety policy is still in ${current} mode.` }],
+            };
+          }
+          safetyEngine.setMode(mode);
+          return {
+            content: [{ type: "text" as const, text: `Safety policy is now in ${mode} mode.` }],
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      })
+  );
+
+  // ── add_policy_rule ──────────────────────────────────────────────────────
+
+  server.tool(
+    "add_policy_rule",
+    'Add or replace a safety rule that allows, denies or asks for confirmation of matching writes, e.g. confirm enVirtualMainOuts/enFaderLevel above 0 (dB). Patterns take "*" wildcards; values are in the endpoint\'s units where known, raw otherwise. Rules are tried in order and the first match decides. New deny rules, and new confirm rules with nothing stricter after them, apply at once; anything that could let more writes through needs a confirmation token from the user.',
+    {
+      name: z.string().describe("Rule name, used to replace or remove it"),
+      action: z.enum(["allow", "deny", "confirm"]).describe("What to do with matching writes"),
+      group: z.string().optional().describe('Group name or pattern (e.g. "enVirtualMainOuts")'),
+      endpoint: z.string().optional().describe('Endpoint name or pattern (e.g. "enFaderLevel", "enGEQ*")'),
+      type: z
+        .enum([
+          "enPPCFaderMessage",
+          "enPPCRotaryMessage",
+          "enPPCSwitchMessage",
+          "enPPCStringMessage",
+          "enPPCOtherMessage",
+        ])
+        .optional()
+        .describe("Only this message type"),
+      indices: z.string().optional().describe('Only these channels (0-based), e.g. "0-7"'),
+      above: z.number().optional().describe("Only values above this"),
+      below: z.number().optional().describe("Only values below this"),
+      reason: z.string().optional().describe("Explanation shown when the rule blocks a write"),
+      position: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Where to insert the rule (0 = tried first; default: last)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ indices, position, confirm_token, ...rule }) =>
+      confirmable("add_policy_rule", confirm_token, async () => {
+        try {
+          const full = { ...rule, indices: indices ? parseIndexList(indices) : undefined };
+          if (!safetyEngine.approvePolicyChange({ kind: "rule", rule: full, position })) {
+            return {
+              content: [{ type: "text" as const, text: `Rule "${rule.name}" not saved.` }],
+            };
+          }
+          safetyEngine.addRule(full, position);
+          return {
+            content: [
+              { type: "text" as const, text: `Rule "${rule.name}" saved: ${describeRule(full)}` },
+            ],
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      })
+  );
+
+  // ── set_jump_limit ───────────────────────────────────────────────────────
+
+  server.tool(
+    "set_jump_limit",
+    "Add or replace a rate limit on a dB parameter such as enFaderLevel: writes that would move it further than max_db within window_ms, measured from where it was when the window opened, are denied or need confirmation. Replacing an existing limit needs a confirmation token from the user.",
+    {
+      name: z.string().describe("Limit name, used to replace or remove it"),
+      endpoint: z.string().optional().default("enFaderLevel").describe("Endpoint name or pattern (default: enFaderLevel)"),
+      group: z.string().optional().describe("Group name or pattern (default: all groups)"),
+      max_db: z.number().positive().describe("Largest allowed move in dB"),
+      window_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(1000)
+        .describe("Window in ms (default: 1000)"),
+      action: z
+        .enum(["deny", "confirm"])
+        .optional()
+        .default("confirm")
+        .describe("What to do with larger moves (default: confirm)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ name, endpoint, group, max_db, window_ms, action, confirm_token }) =>
+      confirmable("set_jump_limit", confirm_token, async () => {
+        try {
+          const limit = { name, endpoint, group, maxDb: max_db, windowMs: window_ms, action };
+          if (!safetyEngine.approvePolicyChange({ kind: "jumpLimit", limit })) {
+            return {
+              content: [{ type: "text" as const, text: `Jump limit "${name}" not saved.` }],
+            };
+          }
+          safetyEngine.setJumpLimit(limit);
+          return {
+            content: [
+              { type: "text" as const, text: `Jump limit "${name}" saved: ${describeJumpLimit(limit)}` },
+            ],
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      })
+  );
+
+  // ── remove_policy_rule ───────────────────────────────────────────────────
+
+  server.tool(
+    "remove_policy_rule",
+    "Delete a safety rule or jump limit by name. Removing anything but an allow rule needs a confirmation token from the user.",
+    {
+      name: z.string().describe("Rule or limit name"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ name, confirm_token }) =>
+      confirmable("remove_policy_rule", confirm_token, async () => {
+        try {
+          if (!safetyEngine.approvePolicyChange({ kind: "remove", name })) {
+            return { content: [{ type: "text" as const, text: `"${name}" not removed.` }] };
+          }
+          const removed = safetyEngine.remove(name);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: removed ? `Removed "${name}".` : `No rule or limit named "${name}".`,
+              },
+            ],
+            isError: removed ? undefined : true,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      })
+  );
+}
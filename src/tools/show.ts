@@ -0,0 +1,221 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { midasClient } from "../osc-client.js";
+import { formatBatchResults } from "../batch.js";
+import {
+  exportShow,
+  importShow,
+  validateShowFile,
+  type ShowChange,
+  type ShowProgress,
+} from "../show.js";
+import { storePath, readJsonFile, writeJsonFile } from "../storage.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/** Most changes listed individually in an import_show report */
+const MAX_LISTED_CHANGES = 100;
+
+/**
+ * Turn show progress into MCP progress notifications, if the client asked
+ * for them. Progress keeps counting up across phases and is sent at most
+ * once per percent.
+ */
+function progressNotifier(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ((progress: ShowProgress) => void) | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  let phase: ShowProgress["phase"] | null = null;
+  let offset = 0;
+  let phaseTotal = 0;
+  let lastPercent = -1;
+
+  return (progress) => {
+    if (progress.phase !== phase) {
+      offset += phaseTotal;
+      phase = progress.phase;
+      lastPercent = -1;
+    }
+    phaseTotal = progress.total;
+
+    const percent = Math.floor((progress.done / progress.total) * 100);
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: offset + progress.done,
+          total: offset + progress.total,
+          message: `${progress.phase === "read" ? "Reading" : "Writing"} ${progress.done}/${progress.total}`,
+        },
+      })
+      .catch(() => {});
+  };
+}
+
+function formatChange(c: ShowChange): string {
+  const path = `${c.group}/${c.endpoint}${c.index !== undefined ? `/${c.index}` : ""}`;
+  return `  ${path}: ${JSON.stringify(c.from ?? null)} → ${JSON.stringify(c.to)}${c.press ? " (press)" : ""}`;
+}
+
+/**
+ * Register the show file export and import tools on the MCP server.
+ */
+export function registerShowTools(server: McpServer): void {
+  // ── export_show ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "export_show",
+    "Read the complete console state over the live connection (every group, or a subset) and save it as a show file. Channel sections with a store safe on are left out. Indexed endpoints of groups with no instance count in the metadata (e.g. mute and VCA groups) are only exported when index_counts gives one; the reply lists the groups skipped. Long-running: reports progress when the client supplies a progress token.",
+    {
+      name: z.string().describe("Save the show file under this name"),
+      groups: z
+        .array(z.string())
+        .optional()
+        .describe("Only export these groups (default: all)"),
+      index_counts: z
+        .record(z.string(), z.number().int().min(1).max(256))
+        .optional()
+        .describe(
+          'Instance counts for groups the metadata has none for, e.g. {"enVirtualMuteGroups": 8}'
+        ),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between queries in ms (default: 10)"),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Per-query timeout in ms"),
+    },
+    async ({ name, groups, index_counts, pace_ms, timeout_ms }, extra) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const { show, noResponse } = await exportShow(midasClient, groups, {
+          indexCounts: index_counts,
+          paceMs: pace_ms,
+          timeoutMs: timeout_ms,
+          onProgress: progressNotifier(extra),
+        });
+        const path = storePath("shows", name);
+        writeJsonFile(path, show);
+
+        let count = 0;
+        for (const endpoints of Object.values(show.values)) {
+          for (const instances of Object.values(endpoints)) {
+            count += Object.keys(instances).length;
+          }
+        }
+
+        const lines = [
+          `Exported ${count} values from ${Object.keys(show.values).length} groups`,
+          `Saved to ${path}`,
+        ];
+        if (show.skippedGroups.length > 0) {
+          lines.push(
+            "",
+            `Not exported: the indexed endpoints of ${show.skippedGroups.length} groups with no known instance count:`,
+            `  ${show.skippedGroups.join(", ")}`,
+            "Pass index_counts with the number of instances on this console to include them."
+          );
+        }
+        if (noResponse > 0) {
+          lines.push(`${noResponse} queries did not respond`);
+        }
+        if (show.storeSafed.length > 0) {
+          lines.push("", `Store safed (left out):`);
+          for (const s of show.storeSafed) {
+            lines.push(
+              `  ${s.group}${s.index !== undefined ? `/${s.index}` : ""}: ${s.sections.join(", ")}`
+            );
+          }
+        }
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── import_show ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "import_show",
+    "Load a show file saved by export_show, diff it against the live console and write only the values that differ. Toggle switches (mutes, group assignments) are pressed where their live state differs; one whose state does not answer is reported as failed and never pressed. Parameters protected by an active recall safe on the console are left alone. Use dry_run to preview the changes. Long-running: reports progress when the client supplies a progress token.",
+    {
+      name: z.string().describe("Name of a show file saved by export_show"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Only report what would change (default: false)"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Per-query timeout in ms"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ name, dry_run, pace_ms, timeout_ms, confirm_token }, extra) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("import_show", confirm_token, async () => {
+        try {
+          const show = validateShowFile(readJsonFile(storePath("shows", name)));
+          const report = await importShow(midasClient, show, {
+            dryRun: dry_run,
+            paceMs: pace_ms,
+            timeoutMs: timeout_ms,
+            onProgress: progressNotifier(extra),
+          });
+
+          const failed = report.results.filter((r) => r.status !== "ok");
+          const lines = [
+            `${dry_run ? "Dry run" : "Imported"} show "${name}" (taken ${show.takenAt})`,
+            `${report.changes.length} ${dry_run ? "would change" : "changed"}, ${report.unchanged} unchanged`,
+            `${report.recallSafed} recall safed, ${report.notRestorable} not restorable, ${report.noResponse} did not respond`,
+          ];
+          if (report.changes.length > 0) {
+            lines.push("", "Changes:");
+            for (const c of report.changes.slice(0, MAX_LISTED_CHANGES)) {
+              lines.push(formatChange(c));
+            }
+            if (report.changes.length > MAX_LISTED_CHANGES) {
+              lines.push(`  ... and ${report.changes.length - MAX_LISTED_CHANGES} more`);
+            }
+          }
+          if (failed.length > 0) {
+            lines.push("", `Failed (${failed.length}):`, formatBatchResults(failed));
+          }
+          return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
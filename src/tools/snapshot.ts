@@ -0,0 +1,134 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import { formatBatchResults } from "../batch.js";
+import {
+  snapshotChannel,
+  restoreChannel,
+  validateChannelSnapshot,
+} from "../snapshot.js";
+import { storePath, readJsonFile, writeJsonFile } from "../storage.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+/**
+ * Register the channel snapshot and restore tools on the MCP server.
+ */
+export function registerSnapshotTools(server: McpServer): void {
+  // ── snapshot_channel ─────────────────────────────────────────────────────
+
+  server.tool(
+    "snapshot_channel",
+    "Capture every settable parameter of one channel (e.g. all enVirtualMicInputs settings for input index 4) as a versioned JSON snapshot. Give a name to save it locally for restore_channel; otherwise the JSON is returned.",
+    {
+      group: z.string().describe("Control group name (e.g. enVirtualMicInputs)"),
+      index: z.number().int().min(0).describe("Channel index (0-based)"),
+      name: z
+        .string()
+        .optional()
+        .describe("Save the snapshot under this name"),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between queries in ms (default: 10)"),
+    },
+    async ({ group, index, name, pace_ms }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const snapshot = await snapshotChannel(midasClient, group, index, {
+          paceMs: pace_ms,
+        });
+        const lines = [
+          `Snapshot of ${group}/${index}${snapshot.label ? ` "${snapshot.label}"` : ""}`,
+          `${Object.keys(snapshot.values).length} values captured, ${snapshot.missing.length} did not respond`,
+        ];
+        if (snapshot.missing.length > 0) {
+          lines.push(`No response: ${snapshot.missing.join(", ")}`);
+        }
+
+        if (name) {
+          const path = storePath("snapshots", name);
+          writeJsonFile(path, snapshot);
+          lines.push(`Saved to ${path}`);
+        } else {
+          lines.push("", JSON.stringify(snapshot, null, 2));
+        }
+
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── restore_channel ──────────────────────────────────────────────────────
+
+  server.tool(
+    "restore_channel",
+    "Write a channel snapshot back to the console, either to the channel it was taken from or to a different index in the same group (e.g. copy a vocal chain from input 4 to input 5). Read-only meters and toggle-only switches are skipped because they can't be set absolutely.",
+    {
+      name: z
+        .string()
+        .optional()
+        .describe("Name of a snapshot saved by snapshot_channel"),
+      snapshot: z
+        .string()
+        .optional()
+        .describe("Snapshot JSON, as returned by snapshot_channel (alternative to name)"),
+      index: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Target channel index (0-based). Defaults to the snapshot's own index."),
+      pace_ms: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("Delay between messages in ms (default: 10)"),
+      confirm_token: confirmTokenShape,
+    },
+    async ({ name, snapshot, index, pace_ms, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+      if (!name && !snapshot) {
+        return errorResult(new Error("Provide either name or snapshot."));
+      }
+
+      return confirmable("restore_channel", confirm_token, async () => {
+        try {
+          const doc = validateChannelSnapshot(
+            name
+              ? readJsonFile(storePath("snapshots", name))
+              : JSON.parse(snapshot!)
+          );
+          const target = index ?? doc.index;
+          const { results, skipped } = await restoreChannel(midasClient, doc, target, {
+            paceMs: pace_ms,
+          });
+
+          const lines = [
+            `Restored ${doc.group}/${doc.index} → ${doc.group}/${target}`,
+            formatBatchResults(results),
+          ];
+          if (skipped.length > 0) {
+            const byReason: Record<string, string[]> = {};
+            for (const s of skipped) (byReason[s.reason] ??= []).push(s.endpoint);
+            lines.push("", `Skipped ${skipped.length}:`);
+            for (const [reason, endpoints] of Object.entries(byReason)) {
+              lines.push(`  ${reason} (${endpoints.length}): ${endpoints.join(", ")}`);
+            }
+          }
+          return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+}
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { midasClient } from "../osc-client.js";
+import {
+  SIGNAL_THRESHOLD_DB,
+  formatSocketList,
+  formatStageboxInputs,
+  formatStageboxMeters,
+  getStageboxModel,
+  listStageboxModels,
+  parseSockets,
+  readStageboxInputs,
+  readStageboxMeters,
+  setPhantom,
+  type StageboxModel,
+} from "../stagebox.js";
+import { confirmable, confirmTokenShape } from "./safety.js";
+import { NOT_CONNECTED, errorResult } from "./util.js";
+
+function describeModel(model: StageboxModel): string {
+  const parts = [`${model.inputs} inputs`, `${model.outputs} outputs`];
+  if (model.phantom) parts.push("+48 V per input");
+  if (model.midiPorts > 0) parts.push(`${model.midiPorts} MIDI ports`);
+  return `${model.name}: ${parts.join(", ")}`;
+}
+
+/**
+ * Register the stage box tools on the MCP server.
+ */
+export function registerStageboxTools(server: McpServer): void {
+  const models = listStageboxModels().map((m) => m.name);
+  const modelShape = z
+    .string()
+    .describe(`Stage box model (${models.join(", ")})`);
+  const boxShape = z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe("Which box of this model on the system (0-based, default: 0)");
+  const thresholdShape = z
+    .number()
+    .optional()
+    .default(SIGNAL_THRESHOLD_DB)
+    .describe(`Peak level in dBFS above which a socket counts as carrying signal (default: ${SIGNAL_THRESHOLD_DB})`);
+
+  // ── list_stagebox_inputs ─────────────────────────────────────────────────
+
+  server.tool(
+    "list_stagebox_inputs",
+    "Show every input socket of a DL151/DL251/DL351 stage box with its +48 V phantom state and whether signal is present. Sockets are numbered from 1 as printed on the box.",
+    {
+      model: modelShape,
+      box: boxShape,
+      sockets: z
+        .string()
+        .optional()
+        .describe('Sockets to show, e.g. "1-8, 12" (default: all)'),
+      window_ms: z
+        .number()
+        .int()
+        .min(100)
+        .max(5000)
+        .optional()
+        .default(500)
+        .describe("How long to watch the meters for signal (default: 500)"),
+      threshold_db: thresholdShape,
+    },
+    async ({ model, box, sockets, window_ms, threshold_db }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const stagebox = getStageboxModel(model);
+        const inputs = await readStageboxInputs(
+          midasClient,
+          stagebox,
+          box,
+          parseSockets(sockets, stagebox.inputs),
+          { windowMs: window_ms, thresholdDb: threshold_db, paceMs: 2 }
+        );
+        const text = [describeModel(stagebox), formatStageboxInputs(stagebox, box, inputs)].join("\n");
+        return { content: [{ type: "text" as const, text }] };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+
+  // ── set_phantom ──────────────────────────────────────────────────────────
+
+  server.tool(
+    "set_phantom",
+    "Switch +48 V phantom power on or off for stage box input sockets. Meters are checked first: sockets that currently carry signal, or whose meter does not answer, are held back and the reply carries a confirmation token, since phantom can damage line-level sources and ribbon mics and thumps the PA. Sockets whose current state does not answer are reported as failed and left alone. Ask the user before repeating the call with the token.",
+    {
+      model: modelShape,
+      box: boxShape,
+      sockets: z.string().describe('Sockets to switch, e.g. "1-8, 12" (1-based)'),
+      on: z.boolean().describe("true for +48 V on, false for off"),
+      threshold_db: thresholdShape,
+      confirm_token: confirmTokenShape,
+    },
+    async ({ model, box, sockets, on, threshold_db, confirm_token }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      return confirmable("set_phantom", confirm_token, async () => {
+        try {
+          const stagebox = getStageboxModel(model);
+          const report = await setPhantom(
+            midasClient,
+            stagebox,
+            box,
+            parseSockets(sockets, stagebox.inputs),
+            on,
+            { thresholdDb: threshold_db }
+          );
+
+          const state = on ? "on" : "off";
+          const lines = [`${stagebox.name} box ${box} +48 V ${state}:`];
+          if (report.changed.length > 0) {
+            lines.push(`  Switched ${state}: ${formatSocketList(report.changed)}`);
+          }
+          if (report.unchanged.length > 0) {
+            lines.push(`  Already ${state}: ${formatSocketList(report.unchanged)}`);
+          }
+          if (report.blocked.length > 0) {
+            const detail = report.blocked
+              .map((b) =>
+                b.peakDb === null
+                  ? `${b.socket} (no meter reading)`
+                  : `${b.socket} (peak ${b.peakDb.toFixed(1)} dBFS)`
+              )
+              .join(", ");
+            lines.push(`  HELD BACK, signal present or unknown: ${detail}`);
+          }
+          for (const f of report.failed) {
+            lines.push(`  FAILED ${f.endpoint}: ${f.error ?? f.status}`);
+          }
+          return {
+            content: [{ type: "text" as const, text: lines.join("\n") }],
+            isError: report.failed.length > 0 ? true : undefined,
+          };
+        } catch (err) {
+          return errorResult(err);
+        }
+      });
+    }
+  );
+
+  // ── stagebox_meters ──────────────────────────────────────────────────────
+
+  server.tool(
+    "stagebox_meters",
+    "Watch the input and/or output socket meters of a stage box for a short window and return current, peak-hold and RMS levels in dBFS per socket.",
+    {
+      model: modelShape,
+      box: boxShape,
+      direction: z
+        .enum(["input", "output", "both"])
+        .optional()
+        .default("input")
+        .describe("Which sockets to meter (default: input)"),
+      sockets: z
+        .string()
+        .optional()
+        .describe('Sockets to meter, e.g. "1-8" (default: all)'),
+      duration_ms: z
+        .number()
+        .int()
+        .min(100)
+        .max(10000)
+        .optional()
+        .default(1000)
+        .describe("How long to watch in ms (default: 1000)"),
+      rate_hz: z
+        .number()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Queries per second per meter (default: 10)"),
+    },
+    async ({ model, box, direction, sockets, duration_ms, rate_hz }) => {
+      if (!midasClient.isConnected) return NOT_CONNECTED;
+
+      try {
+        const stagebox = getStageboxModel(model);
+        const targets = [];
+        if (direction !== "output") {
+          for (const socket of parseSockets(sockets, stagebox.inputs)) {
+            targets.push({ socket, direction: "input" as const });
+          }
+        }
+        if (direction !== "input") {
+          for (const socket of parseSockets(sockets, stagebox.outputs)) {
+            targets.push({ socket, direction: "output" as const });
+          }
+        }
+
+        const meters = await readStageboxMeters(midasClient, stagebox, box, targets, {
+          durationMs: duration_ms,
+          rateHz: rate_hz,
+        });
+        return {
+          content: [
+            { type: "text" as const, text: formatStageboxMeters(stagebox, box, meters) },
+          ],
+        };
+      } catch (err) {
+        return errorResult(err);
+      }
+    }
+  );
+}
@@ -0,0 +1,25 @@
+/** Result returned by live tools when no console is connected */
+export const NOT_CONNECTED = {
+  content: [
+    {
+      type: "text" as const,
+      text: "Not connected. Use the connect tool first.",
+    },
+  ],
+  isError: true,
+};
+
+/**
+ * Turn a caught error into a tool error result.
+ */
+export function errorResult(err: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    ],
+    isError: true,
+  };
+}
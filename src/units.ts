@@ -0,0 +1,426 @@
+import {
+  argumentTypeOf,
+  getEndpointInfo,
+  GEQ_BAND_RE,
+  type EndpointMetadata,
+  type EndpointSpec,
+  type Unit,
+} from "./endpoints.js";
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type { Unit };
+
+export interface Breakpoint {
+  raw: number;
+  value: number;
+}
+
+export interface UnitCurve {
+  unit: Unit;
+  /** "log" interpolates geometrically between breakpoints (frequency, time) */
+  scale: "linear" | "log";
+  /** Breakpoints sorted by raw value */
+  points: Breakpoint[];
+  origin: "metadata" | "description" | "fader-law" | "meter-law" | "gr-meter-law" | "geq-law";
+}
+
+export interface Quantity {
+  value: number;
+  unit: Unit;
+}
+
+// ── Fader law ────────────────────────────────────────────────────────────────
+
+/** Anything at or below this is shown as -inf. */
+const FADER_FLOOR_DB = -90;
+
+/**
+ * Standard Midas fader law: four linear segments from -inf to +10 dB,
+ * with unity gain at 0.75.
+ */
+const FADER_LAW: UnitCurve = {
+  unit: "dB",
+  scale: "linear",
+  points: [
+    { raw: 0, value: FADER_FLOOR_DB },
+    { raw: 0.0625, value: -60 },
+    { raw: 0.25, value: -30 },
+    { raw: 0.5, value: -10 },
+    { raw: 1, value: 10 },
+  ],
+  origin: "fader-law",
+};
+
+// ── Meter law ────────────────────────────────────────────────────────────────
+
+/** Bottom of the meter scale in dBFS. */
+export const METER_FLOOR_DBFS = -60;
+
+/**
+ * Meter floats are taken as linear in dB from the meter floor to 0 dBFS.
+ * Metadata breakpoints on a meter endpoint override this.
+ */
+const METER_LAW: UnitCurve = {
+  unit: "dB",
+  scale: "linear",
+  points: [
+    { raw: 0, value: METER_FLOOR_DBFS },
+    { raw: 1, value: 0 },
+  ],
+  origin: "meter-law",
+};
+
+/** Full scale of a gain-reduction meter in dB. */
+export const GR_RANGE_DB = 30;
+
+/**
+ * Gain-reduction meters read in positive dB of reduction, linear from none
+ * at raw 0 to GR_RANGE_DB at full scale. Metadata breakpoints override this.
+ */
+const GR_METER_LAW: UnitCurve = {
+  unit: "dB",
+  scale: "linear",
+  points: [
+    { raw: 0, value: 0 },
+    { raw: 1, value: GR_RANGE_DB },
+  ],
+  origin: "gr-meter-law",
+};
+
+// ── GEQ law ──────────────────────────────────────────────────────────────────
+
+/**
+ * Default cut/boost range of a graphic EQ band in dB. The endpoint database
+ * gives the bands no scale, so this is assumed unless the metadata overlay
+ * gives a band a `range` or breakpoints.
+ */
+export const GEQ_RANGE_DB = 15;
+
+/**
+ * Graphic EQ band gains are taken as linear in dB across the cut/boost
+ * range, from `range.min` at raw 0 to `range.max` at raw 1. A range in the
+ * metadata only counts when its unit is dB.
+ */
+function geqLaw(range = { min: -GEQ_RANGE_DB, max: GEQ_RANGE_DB }): UnitCurve {
+  return {
+    unit: "dB",
+    scale: "linear",
+    points: [
+      { raw: 0, value: range.min },
+      { raw: 1, value: range.max },
+    ],
+    origin: "geq-law",
+  };
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+const QUANTITY_RE =
+  /^\s*([+-]?(?:\d+\.?\d*|\.\d+)|[+-]?inf)\s*(db|khz|hz|ms|s|%|:\s*1)?\s*$/i;
+
+const RAW_NUMBER_RE = /^\s*[+-]?(?:\d+\.?\d*|\.\d+)\s*$/;
+
+const BREAKPOINT_RE =
+  /(\d*\.?\d+)\s*=\s*([+-]?\d*\.?\d+)\s*(db|khz|hz|ms|s|%)?/gi;
+
+/**
+ * Normalize a number + unit suffix into a canonical quantity.
+ */
+function normalize(value: number, suffix: string | undefined): Quantity | null {
+  switch (suffix?.toLowerCase().replace(/\s+/g, "")) {
+    case "db":
+      return { value, unit: "dB" };
+    case "hz":
+      return { value, unit: "Hz" };
+    case "khz":
+      return { value: value * 1000, unit: "Hz" };
+    case "ms":
+      return { value, unit: "ms" };
+    case "s":
+      return { value: value * 1000, unit: "ms" };
+    case "%":
+      return { value, unit: "%" };
+    case ":1":
+      return { value, unit: "ratio" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a human value such as "-6 dB", "2.5 kHz", "20ms", "0.8 s" or "4:1".
+ * Returns null when the input has no recognizable unit.
+ */
+export function parseQuantity(input: string): Quantity | null {
+  const match = QUANTITY_RE.exec(input);
+  if (!match) return null;
+
+  const [, number, suffix] = match;
+  if (/inf/i.test(number)) {
+    // "-inf" on its own means a fully closed fader
+    const value = number.startsWith("-") ? FADER_FLOOR_DB : Infinity;
+    return normalize(value, suffix ?? "db");
+  }
+  return normalize(parseFloat(number), suffix);
+}
+
+/**
+ * Guess the unit for breakpoints that carry none (e.g. "0=-50, 1=25") from
+ * the endpoint name.
+ */
+function inferUnit(endpoint: string): Unit | null {
+  if (/Gain|Threshold|Level|Presence|Range/i.test(endpoint)) return "dB";
+  if (/Frequency/i.test(endpoint)) return "Hz";
+  if (/Time|Delay/i.test(endpoint)) return "ms";
+  if (/Ratio/i.test(endpoint)) return "ratio";
+  return null;
+}
+
+/**
+ * Parse calibration breakpoints out of an endpoint description, e.g.
+ * "Sets compressor attack time. 0=0.2ms, 0.35=1ms, 0.65=6ms, 1=20ms".
+ */
+export function parseBreakpoints(
+  endpoint: string,
+  description: string
+): UnitCurve | null {
+  const points: Breakpoint[] = [];
+  let unit: Unit | null = null;
+
+  for (const [, raw, value, suffix] of description.matchAll(BREAKPOINT_RE)) {
+    const rawNum = parseFloat(raw);
+    if (rawNum < 0 || rawNum > 1) continue;
+
+    const quantity = normalize(parseFloat(value), suffix);
+    if (quantity) {
+      if (unit && unit !== quantity.unit) return null;
+      unit = quantity.unit;
+      points.push({ raw: rawNum, value: quantity.value });
+    } else {
+      points.push({ raw: rawNum, value: parseFloat(value) });
+    }
+  }
+
+  if (points.length < 2) return null;
+  unit ??= inferUnit(endpoint);
+  if (!unit) return null;
+
+  points.sort((a, b) => a.raw - b.raw);
+  return { unit, scale: scaleFor(unit, points), points, origin: "description" };
+}
+
+/**
+ * Frequencies and times sweep geometrically; everything else linearly.
+ */
+function scaleFor(unit: Unit, points: Breakpoint[]): UnitCurve["scale"] {
+  const positive = points.every((p) => p.value > 0);
+  return positive && (unit === "Hz" || unit === "ms") ? "log" : "linear";
+}
+
+// ── Curve lookup ─────────────────────────────────────────────────────────────
+
+/** Keyed by spec, so an annotated (replaced) spec gets a fresh curve */
+const curveCache = new WeakMap<EndpointSpec, UnitCurve | null>();
+
+/**
+ * Unit curve from metadata-style calibration, or null unless both a unit
+ * and at least two breakpoints are given.
+ */
+export function curveFromMetadata(
+  meta: Pick<EndpointMetadata, "unit" | "breakpoints"> | undefined
+): UnitCurve | null {
+  if (!meta?.unit || !meta.breakpoints || meta.breakpoints.length < 2) return null;
+  const points = [...meta.breakpoints].sort((a, b) => a.raw - b.raw);
+  return {
+    unit: meta.unit,
+    scale: scaleFor(meta.unit, points),
+    points,
+    origin: "metadata",
+  };
+}
+
+function curveForSpec(endpoint: string, spec: EndpointSpec): UnitCurve | null {
+  const fromMetadata = curveFromMetadata(spec.metadata);
+  if (fromMetadata) return fromMetadata;
+
+  const parsed = parseBreakpoints(endpoint, spec.description);
+  if (parsed) return parsed;
+  if (spec.type === "enPPCFaderMessage" && /FaderLevel/.test(endpoint)) {
+    return FADER_LAW;
+  }
+  if (spec.type === "enPPCMeterMessage" && /GRMeter$/.test(endpoint)) {
+    return GR_METER_LAW;
+  }
+  if (spec.type === "enPPCMeterMessage" && /Meter$/.test(endpoint)) {
+    return METER_LAW;
+  }
+  if (spec.type === "enPPCRotaryMessage" && GEQ_BAND_RE.test(endpoint)) {
+    return geqLaw(spec.metadata?.unit === "dB" ? spec.metadata.range : undefined);
+  }
+  return null;
+}
+
+/**
+ * Get the unit curve for an endpoint, or null if its float value has no
+ * known engineering-unit mapping.
+ */
+export function getUnitCurve(group: string, endpoint: string): UnitCurve | null {
+  const spec = getEndpointInfo(group, endpoint);
+  if (!spec) return null;
+  if (!curveCache.has(spec)) {
+    curveCache.set(spec, curveForSpec(endpoint, spec));
+  }
+  return curveCache.get(spec)!;
+}
+
+// ── Conversion ───────────────────────────────────────────────────────────────
+
+function interpolate(
+  scale: UnitCurve["scale"],
+  t: number,
+  a: number,
+  b: number
+): number {
+  if (scale === "log") {
+    return a * Math.pow(b / a, t);
+  }
+  return a + (b - a) * t;
+}
+
+function position(scale: UnitCurve["scale"], v: number, a: number, b: number): number {
+  if (a === b) return 0;
+  if (scale === "log") {
+    return Math.log(v / a) / Math.log(b / a);
+  }
+  return (v - a) / (b - a);
+}
+
+/**
+ * Convert a raw 0-1 float into engineering units.
+ */
+export function rawToValue(curve: UnitCurve, raw: number): number {
+  const { points, scale } = curve;
+  const r = Math.max(points[0].raw, Math.min(points[points.length - 1].raw, raw));
+
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1];
+    const hi = points[i];
+    if (r <= hi.raw) {
+      const t = hi.raw === lo.raw ? 0 : (r - lo.raw) / (hi.raw - lo.raw);
+      return interpolate(scale, t, lo.value, hi.value);
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+/**
+ * Convert an engineering-unit value into a raw 0-1 float. Values outside the
+ * curve are clamped to its nearest end.
+ */
+export function valueToRaw(curve: UnitCurve, value: number): number {
+  const { points, scale } = curve;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const ascending = last.value >= first.value;
+  const min = ascending ? first : last;
+  const max = ascending ? last : first;
+
+  if (value <= min.value) return min.raw;
+  if (value >= max.value) return max.raw;
+
+  for (let i = 1; i < points.length; i++) {
+    const lo = points[i - 1];
+    const hi = points[i];
+    const within =
+      (value >= lo.value && value <= hi.value) ||
+      (value <= lo.value && value >= hi.value);
+    if (within) {
+      const t = position(scale, value, lo.value, hi.value);
+      return lo.raw + (hi.raw - lo.raw) * t;
+    }
+  }
+  return max.raw;
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+/**
+ * Format an engineering-unit value for display, e.g. "-6.0 dB", "2.50 kHz".
+ */
+export function formatQuantity({ value, unit }: Quantity): string {
+  switch (unit) {
+    case "dB":
+      if (value <= FADER_FLOOR_DB) return "-inf dB";
+      return `${value > 0 ? "+" : ""}${value.toFixed(1)} dB`;
+    case "Hz":
+      return value >= 1000
+        ? `${(value / 1000).toFixed(2)} kHz`
+        : `${value.toFixed(0)} Hz`;
+    case "ms":
+      return value >= 1000
+        ? `${(value / 1000).toFixed(2)} s`
+        : `${value.toFixed(value < 10 ? 2 : 1)} ms`;
+    case "ratio":
+      return `${value.toFixed(1)}:1`;
+    case "%":
+      return `${value.toFixed(0)}%`;
+  }
+}
+
+/**
+ * Format a raw value read from the console in the endpoint's units, or null
+ * if the endpoint has no unit mapping.
+ */
+export function formatRaw(
+  group: string,
+  endpoint: string,
+  raw: unknown
+): string | null {
+  const curve = getUnitCurve(group, endpoint);
+  if (!curve || typeof raw !== "number") return null;
+  return formatQuantity({ value: rawToValue(curve, raw), unit: curve.unit });
+}
+
+/**
+ * Resolve a value given to set_value into what goes on the wire. Numbers,
+ * and numeric strings without a unit ("0.5"), pass through as raw values;
+ * strings with a unit ("-6 dB") are mapped through the endpoint's curve.
+ * Throws if the unit does not fit the endpoint.
+ */
+export function resolveValue(
+  group: string,
+  endpoint: string,
+  value: number | string
+): { raw: number | string; display?: string } {
+  if (typeof value === "number") return { raw: value };
+
+  const spec = getEndpointInfo(group, endpoint);
+  if (!spec || argumentTypeOf(spec, endpoint) !== "float") return { raw: value };
+  if (RAW_NUMBER_RE.test(value)) return { raw: parseFloat(value) };
+
+  const quantity = parseQuantity(value);
+  if (!quantity) {
+    throw new Error(
+      `Could not parse "${value}". Give a raw 0-1 number or a value with a unit (e.g. "-6 dB", "2.5 kHz", "20 ms").`
+    );
+  }
+
+  const curve = getUnitCurve(group, endpoint);
+  if (!curve) {
+    throw new Error(
+      `${group}/${endpoint} has no known unit mapping. Send a raw 0-1 number instead.`
+    );
+  }
+  if (curve.unit !== quantity.unit) {
+    throw new Error(
+      `${group}/${endpoint} is measured in ${curve.unit}, not ${quantity.unit}.`
+    );
+  }
+
+  const raw = valueToRaw(curve, quantity.value);
+  return {
+    raw,
+    display: formatQuantity({ value: rawToValue(curve, raw), unit: curve.unit }),
+  };
+}
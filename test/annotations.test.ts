@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools } from "./helpers.js";
+import { getEndpointInfo } from "../src/endpoints.js";
+import { resolveValue } from "../src/units.js";
+import { registerAnnotationTools } from "../src/tools/annotations.js";
+
+const GROUP = "enVirtualMainOuts";
+const HP = "enGEQHPFrequency";
+
+const call = await connectTools(registerAnnotationTools);
+
+describe("endpoint annotations", () => {
+  it("take effect as soon as they are recorded", async () => {
+    const reply = await call("annotate_endpoint", {
+      group: GROUP,
+      endpoint: HP,
+      description: "Output EQ high-pass frequency",
+      unit: "Hz",
+      breakpoints: [
+        { raw: 0, value: 20 },
+        { raw: 1, value: 400 },
+      ],
+      verified_firmware: "1.14",
+    });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /Annotated enVirtualMainOuts\/enGEQHPFrequency \(description, unit, breakpoints, verifiedOn\)/);
+
+    assert.equal(getEndpointInfo(GROUP, HP)?.description, "Output EQ high-pass frequency");
+    assert.equal(resolveValue(GROUP, HP, "20 Hz").raw, 0);
+  });
+
+  it("keep earlier fields and firmware versions when added to", async () => {
+    const reply = await call("annotate_endpoint", {
+      group: GROUP,
+      endpoint: HP,
+      notes: "Slope is on enGEQHighPassSlope",
+      verified_firmware: "1.15",
+    });
+    assert.equal(reply.isError, false, reply.text);
+
+    const exported = await call("export_annotations", { group: GROUP });
+    const file = JSON.parse(exported.text);
+    const annotation = file.groups[GROUP][HP];
+    assert.equal(annotation.unit, "Hz");
+    assert.equal(annotation.notes, "Slope is on enGEQHighPassSlope");
+    assert.deepEqual(annotation.verifiedOn, ["1.14", "1.15"]);
+  });
+
+  it("export as patches to the shipped data files", async () => {
+    const reply = await call("export_annotations", { format: "upstream" });
+    assert.equal(reply.isError, false, reply.text);
+    const patches = JSON.parse(reply.text);
+    assert.equal(
+      patches["pro-series-endpoints.json"][GROUP][HP].description,
+      "Output EQ high-pass frequency"
+    );
+    assert.deepEqual(patches["pro-series-metadata.json"].groups[GROUP].endpoints[HP], {
+      unit: "Hz",
+      breakpoints: [
+        { raw: 0, value: 20 },
+        { raw: 1, value: 400 },
+      ],
+    });
+  });
+
+  it("refuse endpoints no database defines", async () => {
+    const reply = await call("annotate_endpoint", {
+      group: GROUP,
+      endpoint: "enNoSuchThing",
+      description: "?",
+    });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /Unknown endpoint enVirtualMainOuts\/enNoSuchThing/);
+  });
+});
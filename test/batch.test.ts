@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { expandItems, parseIndexList } from "../src/batch.js";
+
+describe("parseIndexList", () => {
+  it("expands ranges into sorted, de-duplicated indices", () => {
+    assert.deepEqual(parseIndexList("4, 0-2, 2"), [0, 1, 2, 4]);
+    assert.deepEqual(parseIndexList(""), []);
+  });
+
+  it("rejects malformed lists", () => {
+    assert.throws(() => parseIndexList("3-1"), /end before start/);
+    assert.throws(() => parseIndexList("one"), /Invalid index "one"/);
+  });
+
+  it("rejects huge ranges before expanding them", () => {
+    assert.throws(() => parseIndexList("0-999999999"), /more than 1024 indices/);
+    assert.throws(() => parseIndexList("0-1000, 2000-2100"), /more than 1024 indices \("2000-2100"\)/);
+    assert.equal(parseIndexList("0-1023").length, 1024);
+  });
+});
+
+describe("expandItems", () => {
+  it("makes one item per endpoint and index", () => {
+    const items = expandItems("enVirtualMicInputs", ["enFaderLevel", "enMuteStatus"], [0, 1]);
+    assert.deepEqual(
+      items.map((i) => `${i.endpoint}/${i.index}`),
+      ["enFaderLevel/0", "enFaderLevel/1", "enMuteStatus/0", "enMuteStatus/1"]
+    );
+  });
+});
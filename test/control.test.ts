@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerBatchTools } from "../src/tools/batch.js";
+import { registerSafetyTools } from "../src/tools/safety.js";
+
+const MIC = "enVirtualMicInputs";
+
+const call = await connectTools(registerControlTools, registerSafetyTools, registerBatchTools);
+const simulator = await startConsole(12010);
+
+// ── connect / get / set ──────────────────────────────────────────────────────
+
+describe("connect, get_value and set_value", () => {
+  it("reports the connection", async () => {
+    const reply = await call("connection_status");
+    assert.match(reply.text, /Connected to 127\.0\.0\.1:12010/);
+  });
+
+  it("reads a value from the console with its unit", async () => {
+    await simulator.setState(buildOscPath(MIC, "enFaderLevel", 3)!, 0.75);
+    const reply = await call("get_value", { group: MIC, endpoint: "enFaderLevel", index: 3 });
+    assert.equal(reply.isError, false);
+    assert.match(reply.text, /Value: \[0\.75\]/);
+    assert.match(reply.text, /Human: \+?0\.0 dB/);
+  });
+
+  it("writes a value given in dB through the fader law", async () => {
+    await simulator.setState(buildOscPath(MIC, "enFaderLevel", 4)!, 0.45);
+    const reply = await call("set_value", {
+      group: MIC,
+      endpoint: "enFaderLevel",
+      index: 4,
+      value: "-10 dB",
+    });
+    assert.equal(reply.isError, false, reply.text);
+    const path = buildOscPath(MIC, "enFaderLevel", 4)!;
+    await until(() => simulator.getState(path) !== 0.45);
+    assert.ok(Math.abs((simulator.getState(path) as number) - 0.5) < 1e-6);
+  });
+
+  it("writes strings and accepts human channel references", async () => {
+    const reply = await call("set_value", { channel: "input 6", endpoint: "enPathname", value: "Vocal" });
+    assert.equal(reply.isError, false, reply.text);
+    const path = buildOscPath(MIC, "enPathname", 5)!;
+    await until(() => simulator.getState(path) === "Vocal");
+    assert.equal(simulator.getState(path), "Vocal");
+
+    const read = await call("get_value", { channel: "Vocal", endpoint: "enPathname" });
+    assert.match(read.text, /input 6 "Vocal"/);
+  });
+
+  it("refuses read-only meters and out-of-range indices", async () => {
+    const meter = await call("set_value", { group: MIC, endpoint: "enMeter", index: 0, value: 0.5 });
+    assert.equal(meter.isError, true);
+    assert.match(meter.text, /read-only/);
+
+    const range = await call("set_value", { group: MIC, endpoint: "enFaderLevel", index: 999, value: 0.5 });
+    assert.equal(range.isError, true);
+  });
+});
+
+// ── Batch ────────────────────────────────────────────────────────────────────
+
+describe("batch_get and batch_set", () => {
+  it("writes one value to a range of channels", async () => {
+    const reply = await call("batch_set", {
+      group: MIC,
+      endpoints: ["enPathname"],
+      indices: "10-12",
+      value: "Drums",
+    });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /3 items: 3 ok/);
+    for (const index of [10, 11, 12]) {
+      const path = buildOscPath(MIC, "enPathname", index)!;
+      await until(() => simulator.getState(path) === "Drums");
+      assert.equal(simulator.getState(path), "Drums");
+    }
+  });
+
+  it("writes per-channel values in index order", async () => {
+    await call("batch_set", {
+      group: MIC,
+      endpoints: ["enPathname"],
+      indices: "20,21",
+      values: ["Kick", "Snare"],
+    });
+    const reply = await call("batch_get", { group: MIC, endpoints: ["enPathname"], indices: "20-21" });
+    assert.match(reply.text, /enPathname\/20\s+OK\s+"Kick"/);
+    assert.match(reply.text, /enPathname\/21\s+OK\s+"Snare"/);
+  });
+});
+
+// ── Toggles ──────────────────────────────────────────────────────────────────
+
+describe("toggle switches", () => {
+  it("flip on every write, whatever the value sent", async () => {
+    const path = buildOscPath(MIC, "enMuteStatus", 7)!;
+    await simulator.setState(path, 0);
+
+    await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 7, value: 1 });
+    await until(() => simulator.getState(path) === 1);
+    assert.equal(simulator.getState(path), 1);
+    await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 7, value: 1 });
+    await until(() => simulator.getState(path) === 0);
+    assert.equal(simulator.getState(path), 0);
+  });
+
+  it("report their state when read", async () => {
+    await simulator.setState(buildOscPath(MIC, "enMuteStatus", 8)!, 1);
+    const reply = await call("get_value", { group: MIC, endpoint: "enMuteStatus", index: 8 });
+    assert.match(reply.text, /Value: \[1\]/);
+  });
+});
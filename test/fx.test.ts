@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { confirmToken, connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { FX_GROUP } from "../src/fx.js";
+import { registerFxTools } from "../src/tools/fx.js";
+
+const PORT = 12130;
+
+const call = await connectTools(registerFxTools);
+const simulator = await startConsole(PORT);
+
+/** Reverb mix is catalogued on slot 7 */
+const mix = (fx: number) => buildOscPath(FX_GROUP, "enIFXWriteParam_7", fx)!;
+
+describe("unverified FX slot layouts", () => {
+  it("are marked in the catalogue listing", async () => {
+    const reply = await call("list_fx_effects", { effect: "reverb" });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /^Reverb \[reverb\].* - unverified slot layout$/m);
+  });
+
+  it("hold set_fx writes back until confirmed", async () => {
+    await simulator.setState(mix(2), 0.9);
+    const args = { fx: 2, effect: "reverb", parameter: "mix", value: "25%" };
+    const first = await call("set_fx", args);
+    assert.match(first.text, /CONFIRMATION REQUIRED/);
+    assert.match(first.text, /Reverb slot layout is unverified; slot 7 may not be Mix/);
+    assert.match(first.text, /FX 2 mix not set/);
+    assert.equal(simulator.getState(mix(2)), 0.9);
+
+    const confirmed = await call("set_fx", { ...args, confirm_token: confirmToken(first) });
+    assert.equal(confirmed.isError, false, confirmed.text);
+    assert.match(confirmed.text, /FX 2 Reverb Mix = 25/);
+    await until(() => simulator.getState(mix(2)) === 0.25);
+    assert.equal(simulator.getState(mix(2)), 0.25);
+  });
+
+  it("are marked when an FX is read", async () => {
+    const reply = await call("get_fx", { fx: 2, effect: "reverb", pace_ms: 0 });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /^FX 2.*: Reverb \[unverified\]/);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools, startConsole } from "./helpers.js";
+import { loadGeqPreset } from "../src/geq.js";
+import { registerGeqTools } from "../src/tools/geq.js";
+
+const PORT = 12110;
+
+const call = await connectTools(registerGeqTools);
+await startConsole(PORT);
+
+/** Band gains of a live GEQ, via get_geq_curve */
+async function liveGains(instance: number): Promise<number[]> {
+  const reply = await call("get_geq_curve", { instance, format: "json", pace_ms: 0 });
+  assert.equal(reply.isError, false, reply.text);
+  const { bands } = JSON.parse(reply.text) as { bands: { gainDb: number }[] };
+  return bands.map((b) => Math.round(b.gainDb * 10) / 10);
+}
+
+/** Start a GEQ flat; the simulator's bands start at raw 0, full cut */
+async function flatten(instance: number): Promise<void> {
+  const reply = await call("set_geq_curve", { instance, preset: "flat", pace_ms: 0 });
+  assert.equal(reply.isError, false, reply.text);
+}
+
+describe("set_geq_curve", () => {
+  it("applies a built-in preset", async () => {
+    await flatten(0);
+    const reply = await call("set_geq_curve", { instance: 0, preset: "smiley", pace_ms: 0 });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /GEQ 0 <- preset "smiley": 29 bands changed, 2 unchanged/);
+    assert.deepEqual(await liveGains(0), loadGeqPreset("smiley").gains);
+  });
+
+  it("writes only the bands given by frequency", async () => {
+    await flatten(1);
+    const reply = await call("set_geq_curve", {
+      instance: 1,
+      bands: { "1k": -3, "2.5 kHz": 2 },
+      pace_ms: 0,
+    });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /2 bands changed/);
+    const gains = await liveGains(1);
+    assert.equal(gains[17], -3);
+    assert.equal(gains[21], 2);
+    assert.equal(gains.filter((g) => g !== 0).length, 2);
+  });
+
+  it("rejects a band given twice", async () => {
+    await flatten(2);
+    const reply = await call("set_geq_curve", {
+      instance: 2,
+      bands: { "1k": -3, "1 kHz": 4 },
+      pace_ms: 0,
+    });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /"1k" and "1 kHz" are both the 1k Hz band/);
+    assert.equal((await liveGains(2))[17], 0);
+  });
+
+  it("rejects gains outside the band's range", async () => {
+    const reply = await call("set_geq_curve", { instance: 2, bands: { "63": 16 }, pace_ms: 0 });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /63 Hz: 16 dB is outside -15\.0 dB to \+15\.0 dB/);
+  });
+});
+
+describe("GEQ presets", () => {
+  it("saves a live curve and diffs it against the GEQ and other presets", async () => {
+    const applied = await call("set_geq_curve", { instance: 3, preset: "vocal-cut", pace_ms: 0 });
+    assert.equal(applied.isError, false, applied.text);
+    const saved = await call("save_geq_preset", { name: "hall", instance: 3, pace_ms: 0 });
+    assert.equal(saved.isError, false, saved.text);
+
+    const live = await call("diff_geq_curve", { preset: "hall", instance: 3, pace_ms: 0 });
+    assert.match(live.text, /Preset "hall" -> GEQ 3: 0 bands differ/);
+
+    const flat = await call("diff_geq_curve", { preset: "hall", against: "flat" });
+    assert.match(flat.text, /16 bands differ/);
+    assert.match(flat.text, /1k Hz: -6\.0 dB -> 0\.0 dB \(\+6\.0 dB\)/);
+  });
+});
+
+describe("GEQ filters", () => {
+  it("sets and reads back a main out's filter frequencies", async () => {
+    const set = await call("set_geq_filters", { output: 1, hp: 0.2, lp: 0.8, pace_ms: 0 });
+    assert.equal(set.isError, false, set.text);
+    assert.match(set.text, /2 items: 2 ok/);
+
+    const read = await call("get_geq_filters", { output: 1, pace_ms: 0 });
+    assert.equal(read.isError, false, read.text);
+    assert.match(read.text, /enGEQHPFrequency\/1 +OK +0\.2/);
+    assert.match(read.text, /enGEQLPFrequency\/1 +OK +0\.8/);
+  });
+
+  it("reports frequencies it has no scale for", async () => {
+    const reply = await call("set_geq_filters", { output: 2, hp: "80 Hz", pace_ms: 0 });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /enGEQHPFrequency has no known unit mapping/);
+  });
+});
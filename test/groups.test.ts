@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerGroupTools } from "../src/tools/groups.js";
+
+const MUTE_GROUPS = "enVirtualMuteGroups";
+
+const call = await connectTools(registerControlTools, registerGroupTools);
+const simulator = await startConsole(12070);
+
+describe("assign_mute_group", () => {
+  it("presses the switch of a member listed twice only once", async () => {
+    const masterL = buildOscPath(MUTE_GROUPS, "enMuteGroupChildMasterL", 0)!;
+    const input3 = buildOscPath(MUTE_GROUPS, "enMuteGroupChildInput3", 0)!;
+    await simulator.setState(masterL, 0);
+    await simulator.setState(input3, 0);
+
+    const reply = await call("assign_mute_group", { group_index: 0, masters: ["L", "L"], inputs: "2, 2" });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /2 added, 0 removed/);
+    await until(() => simulator.getState(masterL) === 1 && simulator.getState(input3) === 1);
+    assert.equal(simulator.getState(masterL), 1);
+    assert.equal(simulator.getState(input3), 1);
+  });
+});
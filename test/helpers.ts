@@ -0,0 +1,82 @@
+import { after } from "node:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { MidasSimulator } from "../src/simulator.js";
+import { midasClient } from "../src/osc-client.js";
+
+// ── Simulated console ────────────────────────────────────────────────────────
+
+/**
+ * Start a simulator on `port` and connect the shared client to it, with
+ * replies on `port + 1`. Give each test file its own port so files can
+ * run side by side. Stopped and disconnected after the file's tests, so
+ * call this at the top level of a test file.
+ */
+export async function startConsole(port: number): Promise<MidasSimulator> {
+  const simulator = new MidasSimulator({ port, host: "127.0.0.1", replyPort: port + 1 });
+  await simulator.start();
+  await midasClient.connect("127.0.0.1", port, port + 1);
+  midasClient.configureRequests({ timeoutMs: 500, retries: 1 });
+  after(async () => {
+    await midasClient.disconnect();
+    await simulator.stop();
+  });
+  return simulator;
+}
+
+/**
+ * Wait until `check` passes, e.g. for a write to reach the simulator over
+ * UDP. Gives up silently after `timeoutMs`; assert afterwards.
+ */
+export async function until(check: () => boolean, timeoutMs = 1000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+// ── Tools ────────────────────────────────────────────────────────────────────
+
+export interface ToolReply {
+  text: string;
+  isError: boolean;
+}
+
+export type CallTool = (name: string, args?: Record<string, unknown>) => Promise<ToolReply>;
+
+/**
+ * Register tools on a server and connect an MCP client to it in memory.
+ * Returns a function calling a tool and flattening its text reply. Call at
+ * the top level of a test file.
+ */
+export async function connectTools(
+  ...registers: ((server: McpServer) => void)[]
+): Promise<CallTool> {
+  const server = new McpServer(
+    { name: "midas-pro-test", version: "0.0.0" },
+    { capabilities: { logging: {} } }
+  );
+  for (const register of registers) register(server);
+
+  const client = new Client({ name: "midas-pro-test", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  after(() => client.close());
+
+  return async (name, args = {}) => {
+    const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+    return {
+      text: result.content.map((c) => (c.type === "text" ? c.text : "")).join("\n"),
+      isError: result.isError === true,
+    };
+  };
+}
+
+/** The confirmation token in a CONFIRMATION REQUIRED reply */
+export function confirmToken(reply: ToolReply): string {
+  const match = /confirm_token: "([^"]+)"/.exec(reply.text);
+  if (!match) throw new Error(`No confirmation token in:\n${reply.text}`);
+  return match[1];
+}
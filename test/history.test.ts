@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerBatchTools } from "../src/tools/batch.js";
+import { registerHistoryTools } from "../src/tools/history.js";
+
+const MIC = "enVirtualMicInputs";
+
+const call = await connectTools(registerControlTools, registerBatchTools, registerHistoryTools);
+const simulator = await startConsole(12030);
+
+describe("audit log and undo", () => {
+  it("journals writes with the value they replaced", async () => {
+    await simulator.setState(buildOscPath(MIC, "enPathname", 0)!, "Kick");
+    await call("set_value", { group: MIC, endpoint: "enPathname", index: 0, value: "Kick In" });
+
+    const history = await call("show_history", { limit: 1 });
+    assert.match(history.text, /set_value \/enPPCStringMessage\/enVirtualMicInputs\/enPathname\/0: "Kick" → "Kick In"/);
+  });
+
+  it("undo_last sets back every write of the last tool call", async () => {
+    for (const [index, label] of ["Tom 1", "Tom 2"].entries()) {
+      await simulator.setState(buildOscPath(MIC, "enPathname", 10 + index)!, label);
+    }
+    await call("batch_set", { group: MIC, endpoints: ["enPathname"], indices: "10-11", value: "Toms" });
+    await until(() => simulator.getState(buildOscPath(MIC, "enPathname", 11)!) === "Toms");
+
+    const reply = await call("undo_last");
+    assert.equal(reply.isError, false, reply.text);
+    await until(
+      () =>
+        simulator.getState(buildOscPath(MIC, "enPathname", 10)!) === "Tom 1" &&
+        simulator.getState(buildOscPath(MIC, "enPathname", 11)!) === "Tom 2"
+    );
+    assert.equal(simulator.getState(buildOscPath(MIC, "enPathname", 10)!), "Tom 1");
+    assert.equal(simulator.getState(buildOscPath(MIC, "enPathname", 11)!), "Tom 2");
+  });
+
+  it("skips values changed on the console since, unless forced", async () => {
+    const path = buildOscPath(MIC, "enPathname", 20)!;
+    await simulator.setState(path, "Gtr");
+    await call("set_value", { group: MIC, endpoint: "enPathname", index: 20, value: "Guitar" });
+    await until(() => simulator.getState(path) === "Guitar");
+    await simulator.setState(path, "Acoustic");
+
+    const skipped = await call("undo_last");
+    assert.match(skipped.text, /changed/i);
+    assert.equal(simulator.getState(path), "Acoustic");
+
+    await call("undo_last", { force: true });
+    await until(() => simulator.getState(path) === "Gtr");
+    assert.equal(simulator.getState(path), "Gtr");
+  });
+
+  it("passes over calls that only pressed toggles to undo the call before", async () => {
+    const label = buildOscPath(MIC, "enPathname", 30)!;
+    const mute = buildOscPath(MIC, "enMuteStatus", 5)!;
+    await simulator.setState(label, "Bass");
+    await simulator.setState(mute, 0);
+    await call("set_value", { group: MIC, endpoint: "enPathname", index: 30, value: "Bass DI" });
+    await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 5, value: 1 });
+    await until(() => simulator.getState(label) === "Bass DI" && simulator.getState(mute) === 1);
+
+    const reply = await call("undo_last");
+    assert.equal(reply.isError, false, reply.text);
+    assert.doesNotMatch(reply.text, /toggle/);
+    await until(() => simulator.getState(label) === "Bass");
+    assert.equal(simulator.getState(label), "Bass");
+    assert.equal(simulator.getState(mute), 1);
+  });
+});
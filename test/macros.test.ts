@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { confirmToken, connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerMacroTools } from "../src/tools/macros.js";
+import { registerSafetyTools } from "../src/tools/safety.js";
+
+const MIC = "enVirtualMicInputs";
+
+const call = await connectTools(registerControlTools, registerSafetyTools, registerMacroTools);
+const simulator = await startConsole(12040);
+
+describe("macros", () => {
+  it("check every step when saved", async () => {
+    const reply = await call("create_macro", {
+      name: "bad",
+      steps: [
+        { group: MIC, endpoint: "enFaderLevel", index: 0, value: "-6 dB" },
+        { group: MIC, endpoint: "enMeter", index: 0, value: 0.5 },
+      ],
+    });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /Step 2 .*read-only/);
+  });
+
+  it("press toggle switches only when not already in the wanted state", async () => {
+    const muted = buildOscPath(MIC, "enMuteStatus", 0)!;
+    const open = buildOscPath(MIC, "enMuteStatus", 1)!;
+    await simulator.setState(muted, 1);
+    await simulator.setState(open, 0);
+    await call("create_macro", {
+      name: "mute-both",
+      steps: [
+        { group: MIC, endpoint: "enMuteStatus", index: 0, value: "on" },
+        { group: MIC, endpoint: "enMuteStatus", index: 1, value: "on" },
+      ],
+    });
+
+    const reply = await call("run_macro", { name: "mute-both" });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /1\. ALREADY/);
+    assert.match(reply.text, /2\. OK/);
+    await until(() => simulator.getState(open) === 1);
+    assert.equal(simulator.getState(muted), 1);
+    assert.equal(simulator.getState(open), 1);
+  });
+
+  it("confirm a fade past the jump limit once, then run it to the end", async () => {
+    const path = buildOscPath(MIC, "enFaderLevel", 2)!;
+    await simulator.setState(path, 0.0625);
+    await call("create_macro", {
+      name: "fade-up",
+      steps: [{ group: MIC, endpoint: "enFaderLevel", index: 2, value: "0 dB", fade_ms: 200 }],
+    });
+
+    const first = await call("run_macro", { name: "fade-up" });
+    assert.match(first.text, /CONFIRMATION REQUIRED for 1 write/);
+    assert.equal(simulator.getState(path), 0.0625);
+
+    const confirmed = await call("run_macro", { name: "fade-up", confirm_token: confirmToken(first) });
+    assert.equal(confirmed.isError, false, confirmed.text);
+    assert.match(confirmed.text, /OK .*fade 200 ms/);
+    await until(() => Math.abs((simulator.getState(path) as number) - 0.75) < 1e-6);
+    assert.ok(Math.abs((simulator.getState(path) as number) - 0.75) < 1e-6);
+  });
+});
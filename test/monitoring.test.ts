@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { connectTools, startConsole } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { alertEngine, type AlertEvent } from "../src/alerts.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerMonitoringTools } from "../src/tools/monitoring.js";
+
+const MASTERS = "enVirtualMasters";
+
+const call = await connectTools(registerControlTools, registerMonitoringTools);
+const simulator = await startConsole(12050);
+
+describe("meter_levels", () => {
+  it("reports gain reduction in positive dB", async () => {
+    await simulator.setState(buildOscPath(MASTERS, "enCompGRMeter", 1)!, 0.4);
+    const reply = await call("meter_levels", {
+      group: MASTERS,
+      meters: ["enCompGRMeter"],
+      indices: "1",
+      duration_ms: 300,
+    });
+    assert.match(reply.text, /enCompGRMeter\/1\s+12\.0\s+12\.0/);
+  });
+
+  it("polls many meters at the batch pace rather than the asked rate", async () => {
+    const reply = await call("meter_levels", {
+      group: "enVirtualMicInputs",
+      indices: "0-49",
+      rate_hz: 50,
+      duration_ms: 100,
+    });
+    assert.match(reply.text, /at 2 Hz/);
+    assert.doesNotMatch(reply.text, /—/);
+  });
+});
+
+describe("alert rules", () => {
+  it('fire for "GR above 10 dB on master 2"', async () => {
+    const path = buildOscPath(MASTERS, "enCompGRMeter", 1)!;
+    await simulator.setState(path, 0);
+    const added = await call("add_alert_rule", {
+      name: "master-2-gr",
+      group: MASTERS,
+      endpoint: "enCompGRMeter",
+      indices: "1",
+      condition: "above",
+      threshold: 10,
+    });
+    assert.equal(added.isError, false, added.text);
+
+    const fired = once(alertEngine, "alert", { signal: AbortSignal.timeout(3000) });
+    await simulator.setState(path, 0.5);
+    const [event] = (await fired) as [AlertEvent];
+    assert.equal(event.rule, "master-2-gr");
+    assert.equal(event.kind, "triggered");
+    assert.equal(event.human, "+15.0 dB");
+
+    await call("remove_alert_rule", { name: "master-2-gr" });
+  });
+
+  it("reject thresholds the meter can never cross", async () => {
+    const reply = await call("add_alert_rule", {
+      name: "impossible",
+      group: MASTERS,
+      endpoint: "enCompGRMeter",
+      indices: "1",
+      condition: "above",
+      threshold: 40,
+    });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /reads 0 to 30 dB/);
+  });
+
+  it("need a threshold for above and below", async () => {
+    const reply = await call("add_alert_rule", {
+      name: "no-threshold",
+      group: "enVirtualMicInputs",
+      endpoint: "enMeter",
+      indices: "0",
+      condition: "below",
+    });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /needs a threshold/);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { saveRehearsal } from "../src/rehearsal.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerRehearsalTools } from "../src/tools/rehearsal.js";
+
+const MIC = "enVirtualMicInputs";
+const PORT = 12060;
+
+const call = await connectTools(registerControlTools, registerRehearsalTools);
+const simulator = await startConsole(PORT);
+
+async function connect(dryRun: boolean): Promise<void> {
+  await call("connect", { ip: "127.0.0.1", port: PORT, listen_port: PORT + 1, dry_run: dryRun });
+}
+
+describe("dry-run rehearsal and replay", () => {
+  it("records toggle presses with the state they leave the switch in", async () => {
+    await simulator.setState(buildOscPath(MIC, "enMuteStatus", 1)!, 0);
+    await simulator.setState(buildOscPath(MIC, "enMuteStatus", 2)!, 0);
+    await connect(true);
+
+    await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 1, value: 1 });
+    await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 2, value: 1 });
+    await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 2, value: 1 });
+    assert.equal(simulator.getState(buildOscPath(MIC, "enMuteStatus", 1)!), 0);
+
+    const recording = await call("get_dry_run");
+    assert.match(recording.text, /enMuteStatus\/1 ,i 1 \[press -> on\]/);
+    assert.match(recording.text, /enMuteStatus\/2 ,i 1 \[press -> on\]\n.*enMuteStatus\/2 ,i 1 \[press -> off\]/);
+
+    const saved = await call("export_dry_run", { name: "mutes" });
+    assert.equal(saved.isError, false, saved.text);
+  });
+
+  it("presses only switches not already in the rehearsed state", async () => {
+    const alreadyMuted = buildOscPath(MIC, "enMuteStatus", 1)!;
+    await simulator.setState(alreadyMuted, 1);
+    await connect(false);
+
+    const reply = await call("replay_dry_run", { name: "mutes" });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /Replayed 2 of 3 writes; 1 switch was already as rehearsed/);
+    await until(() => simulator.getState(buildOscPath(MIC, "enMuteStatus", 2)!) === 0);
+    assert.equal(simulator.getState(alreadyMuted), 1);
+    assert.equal(simulator.getState(buildOscPath(MIC, "enMuteStatus", 2)!), 0);
+  });
+
+  it("skips and reports presses recorded without a state", async () => {
+    const path = buildOscPath(MIC, "enMuteStatus", 3)!;
+    await simulator.setState(path, 0);
+    saveRehearsal(
+      "old",
+      [
+        {
+          at: new Date().toISOString(),
+          path,
+          group: MIC,
+          endpoint: "enMuteStatus",
+          index: 3,
+          type: "i",
+          value: 1,
+          press: true,
+        },
+      ],
+      null
+    );
+
+    const reply = await call("replay_dry_run", { name: "old" });
+    assert.match(reply.text, /Replayed 0 of 1 write/);
+    assert.match(reply.text, /SKIPPED .*enMuteStatus\/3.*state was unknown/);
+    assert.equal(simulator.getState(path), 0);
+  });
+
+  it("keeps recorded values out of the state cache", async () => {
+    await simulator.setState(buildOscPath(MIC, "enFaderLevel", 4)!, 0.25);
+    await connect(true);
+
+    await call("set_value", { group: MIC, endpoint: "enFaderLevel", index: 4, value: "0 dB" });
+    const reply = await call("get_value", { group: MIC, endpoint: "enFaderLevel", index: 4, max_age_ms: 60000 });
+    assert.match(reply.text, /Value: \[0\.25\]/);
+  });
+});
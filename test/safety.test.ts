@@ -0,0 +1,157 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { confirmToken, connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerSafetyTools } from "../src/tools/safety.js";
+
+const MAIN = "enVirtualMainOuts";
+const MIC = "enVirtualMicInputs";
+
+const call = await connectTools(registerControlTools, registerSafetyTools);
+const simulator = await startConsole(12020);
+
+// ── Rules ────────────────────────────────────────────────────────────────────
+
+describe("policy rules", () => {
+  it("hold back a matching write until it is confirmed with the token", async () => {
+    await call("add_policy_rule", {
+      name: "main-over-unity",
+      action: "confirm",
+      group: MAIN,
+      endpoint: "enFaderLevel",
+      above: 0,
+    });
+    const path = buildOscPath(MAIN, "enFaderLevel", 0)!;
+    await simulator.setState(path, 0.75);
+    const write = { group: MAIN, endpoint: "enFaderLevel", index: 0, value: "+3 dB" };
+
+    const first = await call("set_value", write);
+    assert.equal(first.isError, true);
+    assert.match(first.text, /CONFIRMATION REQUIRED for 1 write/);
+    assert.match(first.text, /\[main-over-unity\]/);
+    assert.equal(simulator.getState(path), 0.75);
+
+    const confirmed = await call("set_value", { ...write, confirm_token: confirmToken(first) });
+    assert.equal(confirmed.isError, false, confirmed.text);
+    await until(() => simulator.getState(path) !== 0.75);
+    assert.ok((simulator.getState(path) as number) > 0.75);
+  });
+
+  it("accept a token only once", async () => {
+    await simulator.setState(buildOscPath(MAIN, "enFaderLevel", 1)!, 0.75);
+    const write = { group: MAIN, endpoint: "enFaderLevel", index: 1, value: "+2 dB" };
+    const token = confirmToken(await call("set_value", write));
+
+    assert.equal((await call("set_value", { ...write, confirm_token: token })).isError, false);
+    const again = await call("set_value", { ...write, confirm_token: token });
+    assert.equal(again.isError, true);
+    assert.match(again.text, /unknown or has expired/);
+  });
+
+  it("do not let a token through a different write", async () => {
+    await simulator.setState(buildOscPath(MAIN, "enFaderLevel", 2)!, 0.75);
+    const token = confirmToken(
+      await call("set_value", { group: MAIN, endpoint: "enFaderLevel", index: 2, value: "+2 dB" })
+    );
+    const other = await call("set_value", {
+      group: MAIN,
+      endpoint: "enFaderLevel",
+      index: 2,
+      value: "+6 dB",
+      confirm_token: token,
+    });
+    assert.equal(other.isError, true);
+    assert.match(other.text, /CONFIRMATION REQUIRED/);
+  });
+
+  it("deny writes outright, first matching rule first", async () => {
+    await call("add_policy_rule", { name: "no-labels", action: "deny", endpoint: "enPathname" });
+    const exception = {
+      name: "label-input-1",
+      action: "allow",
+      group: MIC,
+      endpoint: "enPathname",
+      indices: "0",
+      position: 0,
+    };
+    const held = await call("add_policy_rule", exception);
+    await call("add_policy_rule", { ...exception, confirm_token: confirmToken(held) });
+
+    const denied = await call("set_value", { group: MIC, endpoint: "enPathname", index: 1, value: "Bass" });
+    assert.equal(denied.isError, true);
+    assert.doesNotMatch(denied.text, /confirm_token/);
+
+    const allowed = await call("set_value", { group: MIC, endpoint: "enPathname", index: 0, value: "Kick" });
+    assert.equal(allowed.isError, false, allowed.text);
+  });
+
+  it("deny every write in read-only mode", async () => {
+    await call("set_safety_mode", { mode: "read-only" });
+    const reply = await call("set_value", { group: MIC, endpoint: "enMuteStatus", index: 0, value: 1 });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /read-only mode/);
+    const held = await call("set_safety_mode", { mode: "normal" });
+    await call("set_safety_mode", { mode: "normal", confirm_token: confirmToken(held) });
+  });
+});
+
+// ── Policy changes ───────────────────────────────────────────────────────────
+
+describe("policy changes", () => {
+  it("need the user's confirmation to leave read-only mode", async () => {
+    const tightened = await call("set_safety_mode", { mode: "read-only" });
+    assert.equal(tightened.isError, false, tightened.text);
+
+    const held = await call("set_safety_mode", { mode: "normal" });
+    assert.equal(held.isError, true);
+    assert.match(held.text, /CONFIRMATION REQUIRED for 1 policy change/);
+    assert.match((await call("get_safety_policy")).text, /read-only mode/);
+
+    const confirmed = await call("set_safety_mode", { mode: "normal", confirm_token: confirmToken(held) });
+    assert.equal(confirmed.isError, false, confirmed.text);
+    assert.match(confirmed.text, /now in normal mode/);
+  });
+
+  it("need the user's confirmation to add an allow rule", async () => {
+    const held = await call("add_policy_rule", { name: "anything-goes", action: "allow" });
+    assert.match(held.text, /CONFIRMATION REQUIRED for 1 policy change/);
+    assert.doesNotMatch((await call("get_safety_policy")).text, /anything-goes/);
+  });
+
+  it("need the user's confirmation to remove a confirm rule", async () => {
+    const held = await call("remove_policy_rule", { name: "main-over-unity" });
+    assert.match(held.text, /CONFIRMATION REQUIRED for 1 policy change/);
+    assert.match((await call("get_safety_policy")).text, /main-over-unity/);
+  });
+
+  it("apply new deny rules at once", async () => {
+    const reply = await call("add_policy_rule", { name: "no-reboot", action: "deny", endpoint: "enRebootConsole" });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /Rule "no-reboot" saved/);
+  });
+});
+
+// ── Jump limits ──────────────────────────────────────────────────────────────
+
+describe("jump limits", () => {
+  it("let small moves through and hold back large ones", async () => {
+    const path = buildOscPath(MIC, "enFaderLevel", 3)!;
+    await simulator.setState(path, 0.25);
+
+    const small = await call("set_value", { group: MIC, endpoint: "enFaderLevel", index: 3, value: "-25 dB" });
+    assert.equal(small.isError, false, small.text);
+
+    const large = await call("set_value", { group: MIC, endpoint: "enFaderLevel", index: 3, value: "+10 dB" });
+    assert.equal(large.isError, true);
+    assert.match(large.text, /moves enFaderLevel by 40\.0 dB.*\[fader-jump\]/);
+  });
+
+  it("read the current level when nothing is cached", async () => {
+    const path = buildOscPath(MIC, "enFaderLevel", 4)!;
+    await simulator.setState(path, 0.75);
+
+    const reply = await call("set_value", { group: MIC, endpoint: "enFaderLevel", index: 4, value: "+5 dB" });
+    assert.equal(reply.isError, false, reply.text);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { searchEndpoints } from "../src/endpoints.js";
+
+/** Top results as "group/endpoint" */
+function top(query: string, count = 4, options?: Parameters<typeof searchEndpoints>[1]): string[] {
+  return searchEndpoints(query, options)
+    .slice(0, count)
+    .map((r) => `${r.group}/${r.endpoint}`);
+}
+
+describe("searchEndpoints", () => {
+  it("ranks endpoint name matches first", () => {
+    assert.ok(top("mute").every((name) => /Mute/.test(name)), top("mute").join(", "));
+  });
+
+  it("understands audio synonyms", () => {
+    assert.ok(top("volume").every((name) => name.endsWith("/enFaderLevel")), top("volume").join(", "));
+  });
+
+  it("tolerates typos", () => {
+    assert.ok(top("compresor threshold").every((name) => name.endsWith("/enCompLimThreshold")));
+  });
+
+  it("needs every query word to match", () => {
+    const results = searchEndpoints("eq frequency");
+    assert.ok(results.length > 0);
+    assert.ok(results.every((r) => /EQ|GEQ/i.test(r.endpoint) && /Freq/i.test(r.endpoint + r.spec.description)));
+  });
+
+  it("sorts by score", () => {
+    const scores = searchEndpoints("fader").map((r) => r.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+
+  it("limits results to a group", () => {
+    const results = searchEndpoints("fader", { group: "enVirtualMasters" });
+    assert.ok(results.length > 0);
+    assert.ok(results.every((r) => r.group === "enVirtualMasters"));
+  });
+
+  it("returns nothing for stop words alone", () => {
+    assert.deepEqual(searchEndpoints("the"), []);
+  });
+});
@@ -0,0 +1,12 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Loaded before every test file (see the test script): keep policies,
+ * rules, logs and other stores in a scratch directory, never in the user's
+ * ~/.midas-pro. Stores are resolved on use, so this covers every module.
+ */
+const dataDir = mkdtempSync(join(tmpdir(), "midas-pro-test-"));
+process.env.MIDAS_DATA_DIR = dataDir;
+process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
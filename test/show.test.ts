@@ -0,0 +1,72 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { MidasSimulator } from "../src/simulator.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerShowTools } from "../src/tools/show.js";
+
+const MUTE_GROUPS = "enVirtualMuteGroups";
+const PORT = 12100;
+
+const call = await connectTools(registerControlTools, registerShowTools);
+const simulator = await startConsole(PORT);
+
+/** Whether mic input 3 is assigned to a mute group */
+function assignment(group: number): string {
+  return buildOscPath(MUTE_GROUPS, "enMuteGroupChildInput3", group)!;
+}
+
+const exportArgs = {
+  groups: [MUTE_GROUPS],
+  index_counts: { [MUTE_GROUPS]: 2 },
+  pace_ms: 0,
+};
+
+describe("export_show", () => {
+  it("lists groups left out for want of an instance count", async () => {
+    const reply = await call("export_show", { name: "no-counts", groups: [MUTE_GROUPS] });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /Exported 0 values/);
+    assert.match(reply.text, /Not exported: .*\n {2}enVirtualMuteGroups\nPass index_counts/);
+  });
+
+  it("exports indexed groups given an instance count", async () => {
+    const reply = await call("export_show", { name: "counted", ...exportArgs });
+    assert.equal(reply.isError, false, reply.text);
+    assert.doesNotMatch(reply.text, /Not exported/);
+  });
+});
+
+describe("import_show", () => {
+  it("presses group assignments back where they differ", async () => {
+    await simulator.setState(assignment(0), 1);
+    await simulator.setState(assignment(1), 0);
+    await call("export_show", { name: "assigned", ...exportArgs });
+
+    await simulator.setState(assignment(0), 0);
+    const reply = await call("import_show", { name: "assigned", pace_ms: 0 });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /^1 changed/m);
+    assert.match(reply.text, /enMuteGroupChildInput3\/0: 0 → 1 \(press\)/);
+    await until(() => simulator.getState(assignment(0)) === 1);
+    assert.equal(simulator.getState(assignment(0)), 1);
+    assert.equal(simulator.getState(assignment(1)), 0);
+  });
+
+  it("never presses a toggle whose state does not answer", async () => {
+    await simulator.setState(assignment(0), 1);
+    await call("export_show", { name: "deaf", ...exportArgs, index_counts: { [MUTE_GROUPS]: 1 } });
+
+    // Hears writes but sends its replies where nobody listens
+    const deaf = new MidasSimulator({ port: PORT + 10, host: "127.0.0.1", replyPort: PORT + 12 });
+    await deaf.start();
+    after(() => deaf.stop());
+    await call("connect", { ip: "127.0.0.1", port: PORT + 10, listen_port: PORT + 11 });
+
+    const reply = await call("import_show", { name: "deaf", pace_ms: 0 });
+    assert.match(reply.text, /^0 changed/m);
+    assert.match(reply.text, /enMuteGroupChildInput3\/0 +ERROR +current state unknown/);
+    assert.equal(deaf.getState(assignment(0)), 0);
+  });
+});
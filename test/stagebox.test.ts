@@ -0,0 +1,77 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { confirmToken, connectTools, startConsole, until } from "./helpers.js";
+import { buildOscPath } from "../src/endpoints.js";
+import { MidasSimulator } from "../src/simulator.js";
+import { registerControlTools } from "../src/tools/control.js";
+import { registerStageboxTools } from "../src/tools/stagebox.js";
+
+const DL251 = "enVirtualDL251CPU";
+const PORT = 12080;
+
+const call = await connectTools(registerControlTools, registerStageboxTools);
+const simulator = await startConsole(PORT);
+
+function phantom(socket: number): string {
+  return buildOscPath(DL251, `enPhantomPower${socket}`, 0)!;
+}
+
+/** Pin a socket's input meter: 0 is silence, 0.9 a hot signal */
+async function meter(socket: number, level: number): Promise<void> {
+  await simulator.setState(buildOscPath(DL251, `enInputMeter_${socket}`, 0)!, level);
+}
+
+describe("set_phantom", () => {
+  it("switches quiet sockets on and leaves sockets already on alone", async () => {
+    await simulator.setState(phantom(1), 0);
+    await simulator.setState(phantom(2), 1);
+    await meter(1, 0);
+    await meter(2, 0);
+
+    const reply = await call("set_phantom", { model: "DL251", sockets: "1-2", on: true });
+    assert.equal(reply.isError, false, reply.text);
+    assert.match(reply.text, /Switched on: 1\n.*Already on: 2/);
+    await until(() => simulator.getState(phantom(1)) === 1);
+    assert.equal(simulator.getState(phantom(1)), 1);
+    assert.equal(simulator.getState(phantom(2)), 1);
+  });
+
+  it("holds back sockets carrying signal until confirmed", async () => {
+    await simulator.setState(phantom(3), 0);
+    await meter(3, 0.9);
+
+    const args = { model: "DL251", sockets: "3", on: true };
+    const first = await call("set_phantom", args);
+    assert.match(first.text, /CONFIRMATION REQUIRED/);
+    assert.match(first.text, /signal present on socket 3/);
+    assert.equal(simulator.getState(phantom(3)), 0);
+
+    const confirmed = await call("set_phantom", { ...args, confirm_token: confirmToken(first) });
+    assert.equal(confirmed.isError, false, confirmed.text);
+    await until(() => simulator.getState(phantom(3)) === 1);
+    assert.equal(simulator.getState(phantom(3)), 1);
+  });
+
+  it("switches sockets off without a signal check", async () => {
+    await simulator.setState(phantom(4), 1);
+    await meter(4, 0.9);
+
+    const reply = await call("set_phantom", { model: "DL251", sockets: "4", on: false });
+    assert.equal(reply.isError, false, reply.text);
+    await until(() => simulator.getState(phantom(4)) === 0);
+    assert.equal(simulator.getState(phantom(4)), 0);
+  });
+
+  it("never presses a socket whose state does not answer", async () => {
+    // Hears writes but sends its replies where nobody listens
+    const deaf = new MidasSimulator({ port: PORT + 10, host: "127.0.0.1", replyPort: PORT + 12 });
+    await deaf.start();
+    after(() => deaf.stop());
+    await call("connect", { ip: "127.0.0.1", port: PORT + 10, listen_port: PORT + 11 });
+
+    const reply = await call("set_phantom", { model: "DL251", sockets: "5", on: false });
+    assert.equal(reply.isError, true);
+    assert.match(reply.text, /FAILED enPhantomPower5: current state unknown/);
+    assert.equal(deaf.getState(phantom(5)), 0);
+  });
+});
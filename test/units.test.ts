@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatRaw,
+  getUnitCurve,
+  parseQuantity,
+  rawToValue,
+  resolveValue,
+  valueToRaw,
+} from "../src/units.js";
+
+const MIC = "enVirtualMicInputs";
+
+function curve(group: string, endpoint: string) {
+  const found = getUnitCurve(group, endpoint);
+  assert.ok(found, `${group}/${endpoint} has a unit curve`);
+  return found;
+}
+
+// ── Curves ───────────────────────────────────────────────────────────────────
+
+describe("unit curves", () => {
+  it("map faders through the Midas fader law", () => {
+    const fader = curve(MIC, "enFaderLevel");
+    assert.equal(fader.origin, "fader-law");
+    assert.equal(rawToValue(fader, 0.75), 0);
+    assert.equal(rawToValue(fader, 0.5), -10);
+    assert.equal(rawToValue(fader, 1), 10);
+    assert.equal(valueToRaw(fader, -30), 0.25);
+  });
+
+  it("clamp values beyond either end of a curve", () => {
+    const fader = curve(MIC, "enFaderLevel");
+    assert.equal(valueToRaw(fader, 40), 1);
+    assert.equal(valueToRaw(fader, -200), 0);
+  });
+
+  it("read level meters in dBFS and gain-reduction meters in dB of reduction", () => {
+    const level = curve(MIC, "enMeter");
+    assert.equal(level.origin, "meter-law");
+    assert.equal(rawToValue(level, 0), -60);
+    assert.equal(rawToValue(level, 1), 0);
+
+    const reduction = curve("enVirtualMasters", "enCompGRMeter");
+    assert.equal(reduction.origin, "gr-meter-law");
+    assert.equal(rawToValue(reduction, 0), 0);
+    assert.equal(rawToValue(reduction, 0.5), 15);
+  });
+
+  it("centre graphic EQ bands on 0 dB", () => {
+    const band = curve("enVirtualGEQPool", "enGEQBand5");
+    assert.equal(rawToValue(band, 0.5), 0);
+  });
+
+  it("leave endpoints without a known scale unmapped", () => {
+    assert.equal(getUnitCurve(MIC, "enPathname"), null);
+    assert.equal(formatRaw(MIC, "enPathname", "Vocal"), null);
+  });
+});
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+describe("parseQuantity", () => {
+  it("normalizes units", () => {
+    assert.deepEqual(parseQuantity("-6 dB"), { value: -6, unit: "dB" });
+    assert.deepEqual(parseQuantity("2.5 kHz"), { value: 2500, unit: "Hz" });
+    assert.deepEqual(parseQuantity("0.8 s"), { value: 800, unit: "ms" });
+    assert.deepEqual(parseQuantity("4:1"), { value: 4, unit: "ratio" });
+  });
+
+  it("rejects text that is not a quantity", () => {
+    assert.equal(parseQuantity("loud"), null);
+  });
+});
+
+describe("resolveValue", () => {
+  it("passes numbers through as raw values", () => {
+    assert.deepEqual(resolveValue(MIC, "enFaderLevel", 0.3), { raw: 0.3 });
+  });
+
+  it("reads numeric strings without a unit as raw values", () => {
+    assert.deepEqual(resolveValue(MIC, "enFaderLevel", "0.5"), { raw: 0.5 });
+    assert.deepEqual(resolveValue(MIC, "enFaderLevel", " .25 "), { raw: 0.25 });
+  });
+
+  it("maps values with a unit through the curve", () => {
+    assert.deepEqual(resolveValue(MIC, "enFaderLevel", "0 dB"), { raw: 0.75, display: "0.0 dB" });
+  });
+
+  it("rejects a unit the endpoint is not measured in", () => {
+    assert.throws(() => resolveValue(MIC, "enFaderLevel", "1 kHz"), /measured in dB, not Hz/);
+  });
+});